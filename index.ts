@@ -1,4 +1,7 @@
 export * from "./src/graph/workflow";
+export * from "./src/graph/edge-router";
+export * from "./src/graph/orientation";
+export * from "./src/graph/placement";
 export * from "./src/graph/step-node";
 export * from "./src/plugins/port-drag/port-drag";
 export * from "./src/plugins/arrange/arrange";
@@ -8,7 +11,21 @@ export * from "./src/plugins/validate/validate";
 export * from "./src/plugins/selection/selection";
 export * from "./src/plugins/zoom/zoom";
 export * from "./src/plugins/deletion/deletion";
+export * from "./src/plugins/undo-redo/undo-redo";
+export * from "./src/plugins/clipboard/clipboard";
+export * from "./src/plugins/minimap/minimap";
+export * from "./src/plugins/keyboard-navigation/keyboard-navigation";
+export * from "./src/plugins/accessibility/accessibility";
+export * from "./src/plugins/search/search";
+export * from "./src/plugins/node-inspector/node-inspector";
+export * from "./src/plugins/align/align";
+export * from "./src/plugins/annotation/annotation";
 export * from "./src/utils/svg-dumper";
+export * from "./src/graph/svg-renderer";
+export * from "./src/layout/graph-layout";
+export * from "./src/layout/column-layout";
+export * from "./src/layout/layered-layout";
+export * from "./src/layout/subgraph-placement";
 
 // for implementing third-party plugins
 export * from "./src/plugins/plugin-base";
@@ -0,0 +1,157 @@
+#!/usr/bin/env node
+import * as fs           from "fs";
+import * as path         from "path";
+import * as yaml         from "js-yaml";
+import {WorkflowFactory} from "cwlts/models";
+import {SvgRenderer}     from "../graph/svg-renderer";
+import {Orientation}     from "../graph/orientation";
+import {ExportTheme}     from "./themes";
+
+export interface CLIOptions {
+    input: string;
+    output?: string;
+    theme: string;
+    padding: number;
+    portLabels: boolean;
+    arrange?: boolean;
+    orientation: Orientation;
+}
+
+const usage = `
+Usage: cwl-svg <workflow.cwl> [options]
+
+Renders a CWL workflow (JSON or YAML) into a standalone SVG file.
+The rendering does not need a browser, nodes are auto-arranged if some of them are missing sbg:x/sbg:y.
+
+Options:
+  -o, --output <file>    Where to write the SVG, defaults to the input path with an .svg extension
+  -t, --theme <name>     Color theme, "light" or "dark" (default: light)
+  -p, --padding <px>     Space around the graph (default: 50)
+  --port-labels          Include port labels
+  --arrange              Arrange the graph even if all nodes have coordinates
+  --no-arrange           Never arrange the graph
+  --orientation <dir>    Direction in which the graph flows, "LR", "TB", "RL" or "BT" (default: LR)
+  -h, --help             Show this message
+`;
+
+export class CLI {
+
+    static parseArguments(args: string[]): CLIOptions {
+
+        const options: CLIOptions = {
+            input: undefined,
+            theme: "light",
+            padding: 50,
+            portLabels: false,
+            orientation: "LR"
+        };
+
+        for (let i = 0; i < args.length; i++) {
+            const arg = args[i];
+
+            switch (arg) {
+                case "-o":
+                case "--output":
+                    options.output = args[++i];
+                    break;
+                case "-t":
+                case "--theme":
+                    options.theme = args[++i];
+                    break;
+                case "-p":
+                case "--padding":
+                    options.padding = Number(args[++i]);
+                    break;
+                case "--port-labels":
+                    options.portLabels = true;
+                    break;
+                case "--no-port-labels":
+                    options.portLabels = false;
+                    break;
+                case "--arrange":
+                    options.arrange = true;
+                    break;
+                case "--no-arrange":
+                    options.arrange = false;
+                    break;
+                case "--orientation":
+                    options.orientation = String(args[++i]).toUpperCase() as Orientation;
+                    break;
+                default:
+                    if (arg.startsWith("-")) {
+                        throw new Error(`Unknown option “${arg}”.`);
+                    }
+                    options.input = arg;
+            }
+        }
+
+        if (!options.input) {
+            throw new Error("Missing the path to a CWL workflow.");
+        }
+
+        if (!ExportTheme.themes[options.theme]) {
+            throw new Error(`Unknown theme “${options.theme}”. Available themes are: ${Object.keys(ExportTheme.themes).join(", ")}.`);
+        }
+
+        if (isNaN(options.padding) || options.padding < 0) {
+            throw new Error("Padding should be a non-negative number.");
+        }
+
+        if (["LR", "TB", "RL", "BT"].indexOf(options.orientation) === -1) {
+            throw new Error(`Unknown orientation “${options.orientation}”. Available orientations are: LR, TB, RL, BT.`);
+        }
+
+        return options;
+    }
+
+    static render(options: CLIOptions): string {
+        const content = fs.readFileSync(options.input, "utf-8");
+
+        // JSON is a subset of YAML, so the same parser can take both
+        const document = yaml.safeLoad(content, {json: true});
+
+        if (!document || document.class !== "Workflow") {
+            throw new Error(`“${options.input}” does not describe a CWL workflow.`);
+        }
+
+        const model    = WorkflowFactory.from(document);
+        const renderer = new SvgRenderer(model, {
+            arrange: options.arrange,
+            padding: options.padding,
+            orientation: options.orientation,
+            styles: ExportTheme.makeStylesheet(ExportTheme.themes[options.theme], options.portLabels)
+        });
+
+        return renderer.render();
+    }
+
+    static run(args: string[]): number {
+
+        if (args.indexOf("-h") !== -1 || args.indexOf("--help") !== -1) {
+            process.stdout.write(usage);
+            return 0;
+        }
+
+        try {
+            const options = CLI.parseArguments(args);
+            const output  = options.output || CLI.replaceExtension(options.input, ".svg");
+
+            fs.writeFileSync(output, CLI.render(options));
+
+        } catch (ex) {
+            process.stderr.write(`cwl-svg: ${ex.message}\n${usage}`);
+            return 1;
+        }
+
+        return 0;
+    }
+
+    private static replaceExtension(filePath: string, extension: string): string {
+        const parsed = path.parse(filePath);
+        return path.join(parsed.dir, parsed.name + extension);
+    }
+}
+
+if (require.main === module) {
+    process.exit(CLI.run(process.argv.slice(2)));
+}
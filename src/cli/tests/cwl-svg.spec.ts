@@ -0,0 +1,87 @@
+import * as fs   from "fs";
+import * as os   from "os";
+import * as path from "path";
+import * as yaml from "js-yaml";
+import {CLI}     from "../cwl-svg";
+
+describe("cwl-svg command", () => {
+
+    const samples = path.resolve(__dirname, "../../../cwl-samples");
+
+    let tmpDir: string;
+
+    beforeEach(() => {
+        tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "cwl-svg-"));
+    });
+
+    afterEach(() => {
+        for (const file of fs.readdirSync(tmpDir)) {
+            fs.unlinkSync(path.join(tmpDir, file));
+        }
+
+        fs.rmdirSync(tmpDir);
+    });
+
+    function countNodes(markup: string): number {
+        return (markup.match(/<g tabindex="-1" class="node /g) || []).length;
+    }
+
+    it("writes the picture next to the workflow by default", () => {
+        const input = path.join(tmpDir, "fastqc.json");
+        fs.writeFileSync(input, fs.readFileSync(path.join(samples, "fastqc.json")));
+
+        expect(CLI.run([input])).toBe(0);
+
+        const markup = fs.readFileSync(path.join(tmpDir, "fastqc.svg"), "utf-8");
+
+        expect(markup).toMatch(/^<svg /);
+        expect(countNodes(markup)).toBeGreaterThan(0);
+    });
+
+    it("reads YAML workflows the same as JSON ones", () => {
+        const workflow = JSON.parse(fs.readFileSync(path.join(samples, "fastqc.json"), "utf-8"));
+        const input    = path.join(tmpDir, "fastqc.cwl");
+
+        fs.writeFileSync(input, yaml.safeDump(workflow));
+
+        const fromJSON = CLI.render(CLI.parseArguments([path.join(samples, "fastqc.json")]));
+        const fromYAML = CLI.render(CLI.parseArguments([input]));
+
+        expect(countNodes(fromYAML)).toBe(countNodes(fromJSON));
+    });
+
+    it("writes to the given output path with the given theme", () => {
+        const output = path.join(tmpDir, "picture.svg");
+
+        expect(CLI.run([path.join(samples, "fastqc.json"), "-o", output, "--theme", "dark"])).toBe(0);
+        expect(fs.readFileSync(output, "utf-8")).toContain("<style>");
+    });
+
+    it("parses options", () => {
+        const options = CLI.parseArguments(["wf.cwl", "-p", "10", "--port-labels", "--no-arrange", "--orientation", "tb"]);
+
+        expect(options).toEqual({
+            input: "wf.cwl",
+            theme: "light",
+            padding: 10,
+            portLabels: true,
+            arrange: false,
+            orientation: "TB"
+        });
+    });
+
+    it("rejects unknown options and values", () => {
+        expect(() => CLI.parseArguments([])).toThrowError(/Missing the path/);
+        expect(() => CLI.parseArguments(["wf.cwl", "--fast"])).toThrowError(/Unknown option/);
+        expect(() => CLI.parseArguments(["wf.cwl", "-t", "pink"])).toThrowError(/Unknown theme/);
+        expect(() => CLI.parseArguments(["wf.cwl", "-p", "-5"])).toThrowError(/non-negative/);
+        expect(() => CLI.parseArguments(["wf.cwl", "--orientation", "up"])).toThrowError(/Unknown orientation/);
+    });
+
+    it("refuses documents that are not workflows", () => {
+        const input = path.join(tmpDir, "tool.cwl");
+        fs.writeFileSync(input, "class: CommandLineTool\n");
+
+        expect(() => CLI.render(CLI.parseArguments([input]))).toThrowError(/does not describe a CWL workflow/);
+    });
+});
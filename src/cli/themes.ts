@@ -0,0 +1,110 @@
+/**
+ * Values of the SCSS theme variables that are needed for a static export.
+ * Keep them in sync with the variables in assets/styles.
+ */
+export type ThemeVariables = {
+    background: string,
+    fontColor: string,
+    fontFamily: string,
+    labelStrokeWidth: string,
+    edgeInnerStrokeColor: string,
+    edgeInnerStrokeWidth: string,
+    edgeOuterStrokeWidth: string,
+    nodeOuterStrokeColor: string,
+    nodeOuterStrokeWidth: string,
+    nodeInputFillColor: string,
+    nodeOutputFillColor: string,
+    nodeStepFillColor: string,
+    nodeIconColor: string,
+    nodeIconStrokeWidth: string,
+    portFillColor: string
+};
+
+export class ExportTheme {
+
+    static themes: { [name: string]: ThemeVariables } = {
+
+        light: {
+            background: "white",
+            fontColor: "#333",
+            fontFamily: "sans-serif",
+            labelStrokeWidth: "4px",
+            edgeInnerStrokeColor: "rgb(154, 154, 154)",
+            edgeInnerStrokeWidth: "2px",
+            edgeOuterStrokeWidth: "5px",
+            nodeOuterStrokeColor: "rgb(154, 154, 154)",
+            nodeOuterStrokeWidth: "2px",
+            nodeInputFillColor: "#c3c3c3",
+            nodeOutputFillColor: "#c3c3c3",
+            nodeStepFillColor: "#11a7a7",
+            nodeIconColor: "#333",
+            nodeIconStrokeWidth: "3px",
+            portFillColor: "rgb(154, 154, 154)"
+        },
+
+        dark: {
+            background: "rgb(48, 48, 48)",
+            fontColor: "white",
+            fontFamily: "sans-serif",
+            labelStrokeWidth: "4px",
+            edgeInnerStrokeColor: "rgb(154, 154, 154)",
+            edgeInnerStrokeWidth: "2px",
+            edgeOuterStrokeWidth: "7px",
+            nodeOuterStrokeColor: "rgb(154, 154, 154)",
+            nodeOuterStrokeWidth: "2px",
+            nodeInputFillColor: "#c3c3c3",
+            nodeOutputFillColor: "#c3c3c3",
+            nodeStepFillColor: "#11a7a7",
+            nodeIconColor: "rgb(48, 48, 48)",
+            nodeIconStrokeWidth: "3px",
+            portFillColor: "rgb(195, 195, 195)"
+        }
+    };
+
+    /**
+     * Makes a stylesheet that renders a standalone graph the same way the theme styles the interactive one
+     */
+    static makeStylesheet(theme: ThemeVariables, showPortLabels = false): string {
+        return `
+            svg.cwl-workflow { background: ${theme.background}; font-family: ${theme.fontFamily}; }
+            .label {
+                fill: ${theme.fontColor};
+                stroke: ${theme.background};
+                stroke-width: ${theme.labelStrokeWidth};
+                text-anchor: middle;
+                paint-order: stroke;
+                stroke-linecap: butt;
+                stroke-linejoin: miter;
+            }
+            .node-icon {
+                fill: ${theme.nodeIconColor};
+                stroke: ${theme.nodeIconColor};
+                stroke-width: ${theme.nodeIconStrokeWidth};
+                stroke-linecap: round;
+            }
+            .node .outer {
+                fill: ${theme.background};
+                stroke: ${theme.nodeOuterStrokeColor};
+                stroke-width: ${theme.nodeOuterStrokeWidth};
+            }
+            .node .inner { stroke: 0; }
+            .node.input .inner { fill: ${theme.nodeInputFillColor}; }
+            .node.output .inner { fill: ${theme.nodeOutputFillColor}; }
+            .node.step .inner { fill: ${theme.nodeStepFillColor}; }
+            .port { fill: ${theme.portFillColor}; }
+            .port .label { fill: ${theme.fontColor}; font-size: .9em; alignment-baseline: middle; display: ${showPortLabels ? "inline" : "none"}; }
+            .port.output-port .label { text-anchor: start; transform: translate(10px, 0); }
+            .port.input-port .label { text-anchor: end; transform: translate(-10px, 0); }
+            .orientation-rl .port.output-port .label { text-anchor: end; transform: translate(-10px, 0); }
+            .orientation-rl .port.input-port .label { text-anchor: start; transform: translate(10px, 0); }
+            .orientation-tb .node .title, .orientation-bt .node .title { text-anchor: start; alignment-baseline: middle; }
+            .orientation-tb .port.input-port .label { text-anchor: start; transform: rotate(-90deg) translate(10px, 0); }
+            .orientation-tb .port.output-port .label { text-anchor: end; transform: rotate(-90deg) translate(-10px, 0); }
+            .orientation-bt .port.input-port .label { text-anchor: end; transform: rotate(-90deg) translate(-10px, 0); }
+            .orientation-bt .port.output-port .label { text-anchor: start; transform: rotate(-90deg) translate(10px, 0); }
+            .edge .inner, .edge .outer { fill: none; stroke-linecap: round; }
+            .edge .inner { stroke: ${theme.edgeInnerStrokeColor}; stroke-width: ${theme.edgeInnerStrokeWidth}; }
+            .edge .outer { stroke: ${theme.background}; stroke-width: ${theme.edgeOuterStrokeWidth}; }
+        `;
+    }
+}
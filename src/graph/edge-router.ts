@@ -0,0 +1,308 @@
+/**
+ * Area that edges should go around, a node circle in canvas coordinates
+ */
+export type EdgeObstacle = { x: number, y: number, radius: number };
+
+/**
+ * Decides the shape of edges.
+ *
+ * Edges go from an output port to an input port. The direction tells which way the edge leaves its starting point,
+ * “right” for edges that start at an output port, and “left” for edges that are being dragged out of an input port.
+ * Graphs that flow in other directions, see {@link Workflow.orientation}, use “down” and “up” as well.
+ */
+export interface EdgeRouter {
+
+    /**
+     * Makes path data for an edge between two points in canvas coordinates.
+     * The path has to start at the first point and end at the second one, since edges get measured by their ends.
+     */
+    makePath(x1: number, y1: number, x2: number, y2: number, forceDirection?: "right" | "left" | "down" | "up" | string): string;
+
+    /**
+     * Routers that avoid nodes implement this to be told where nodes are.
+     * It gets called with all nodes before edges are routed, and again whenever nodes move.
+     */
+    setObstacles?(obstacles: EdgeObstacle[]): void;
+}
+
+type Point = { x: number, y: number };
+
+/**
+ * Unit vectors of directions that edges can leave their starting points in
+ */
+const directionVectors: { [direction: string]: Point } = {
+    right: {x: 1, y: 0},
+    left: {x: -1, y: 0},
+    down: {x: 0, y: 1},
+    up: {x: 0, y: -1}
+};
+
+/**
+ * Coordinate system whose first axis points in the given direction, so that routers
+ * can shape edges as if they went right and then turn them the way they should go
+ */
+class DirectedFrame {
+
+    private axis: Point;
+
+    constructor(direction: string) {
+        this.axis = directionVectors[direction] || directionVectors.right;
+    }
+
+    /** Position along the direction and across it */
+    toFrame(x: number, y: number): Point {
+        return {
+            x: x * this.axis.x + y * this.axis.y,
+            y: y * this.axis.x - x * this.axis.y
+        };
+    }
+
+    fromFrame(point: Point): Point {
+        return {
+            x: point.x * this.axis.x - point.y * this.axis.y,
+            y: point.x * this.axis.y + point.y * this.axis.x
+        };
+    }
+
+    /** Makes path data for straight segments between points given in the frame */
+    makePolyline(points: Point[]): string {
+        return points
+            .map(point => this.fromFrame(point))
+            .map((point, index) => `${index === 0 ? "M" : "L"} ${point.x} ${point.y}`)
+            .join(" ");
+    }
+}
+
+/**
+ * Draws edges as cubic bezier curves that leave and enter ports in the direction of the graph
+ */
+export class BezierEdgeRouter implements EdgeRouter {
+
+    makePath(x1: number, y1: number, x2: number, y2: number, forceDirection: "right" | "left" | "down" | "up" | string = "right"): string {
+
+        if (!forceDirection) {
+            return `M ${x1} ${y1} C ${(x1 + x2) / 2} ${y1} ${(x1 + x2) / 2} ${y2} ${x2} ${y2}`;
+        }
+
+        // Control points pull the curve along the direction by half of the distance covered in that direction
+        const axis = directionVectors[forceDirection] || directionVectors.right;
+        const pull = Math.abs((x2 - x1) * axis.x + (y2 - y1) * axis.y) / 2;
+
+        const outX = x1 + axis.x * pull;
+        const outY = y1 + axis.y * pull;
+        const inX  = x2 - axis.x * pull;
+        const inY  = y2 - axis.y * pull;
+
+        return `M ${x1} ${y1} C ${outX} ${outY} ${inX} ${inY} ${x2} ${y2}`;
+    }
+}
+
+/**
+ * Draws edges as straight lines, which are easier to follow in dense graphs
+ */
+export class StraightEdgeRouter implements EdgeRouter {
+
+    makePath(x1: number, y1: number, x2: number, y2: number): string {
+        return `M ${x1} ${y1} L ${x2} ${y2}`;
+    }
+}
+
+/**
+ * Draws edges out of horizontal and vertical segments, the way circuit diagrams are drawn.
+ *
+ * Edges leave and enter ports in the direction of the graph. If the end lies behind the start, the edge goes around
+ * through the middle between them.
+ */
+export class OrthogonalEdgeRouter implements EdgeRouter {
+
+    /**
+     * @param stub Length of the segments that leave and enter ports when an edge has to go backwards
+     */
+    constructor(private stub = 20) {
+    }
+
+    makePath(x1: number, y1: number, x2: number, y2: number, forceDirection: "right" | "left" | "down" | "up" | string = "right"): string {
+
+        const frame = new DirectedFrame(forceDirection || "right");
+        const start = frame.toFrame(x1, y1);
+        const end   = frame.toFrame(x2, y2);
+
+        // There is enough room between the ports for a single segment across the direction
+        if (end.x - start.x >= this.stub * 2 || !forceDirection) {
+            const middle = (start.x + end.x) / 2;
+
+            return frame.makePolyline([start, {x: middle, y: start.y}, {x: middle, y: end.y}, end]);
+        }
+
+        const outX   = start.x + this.stub;
+        const inX    = end.x - this.stub;
+        const middle = (start.y + end.y) / 2;
+
+        return frame.makePolyline([
+            start,
+            {x: outX, y: start.y},
+            {x: outX, y: middle},
+            {x: inX, y: middle},
+            {x: inX, y: end.y},
+            end
+        ]);
+    }
+}
+
+/**
+ * Routes edges around nodes that they don't connect, so an edge that passes by a node doesn't look like it's attached to it.
+ *
+ * Edges that have a clear way between their ports are drawn as bezier curves, same as with {@link BezierEdgeRouter}.
+ * Blocked edges are bent around each node in their way, and smoothed into a spline that passes through the bends.
+ */
+export class ObstacleAvoidingEdgeRouter implements EdgeRouter {
+
+    private obstacles: EdgeObstacle[] = [];
+
+    private bezier = new BezierEdgeRouter();
+
+    /**
+     * @param clearance Space to keep between edges and nodes they go around
+     * @param stub Length of the straight part of the edge that leaves or enters a port before the edge can bend
+     */
+    constructor(private clearance = 15, private stub = 30) {
+    }
+
+    setObstacles(obstacles: EdgeObstacle[]): void {
+        this.obstacles = obstacles;
+    }
+
+    makePath(x1: number, y1: number, x2: number, y2: number, forceDirection: "right" | "left" | "down" | "up" | string = "right"): string {
+
+        const start = {x: x1, y: y1};
+        const end   = {x: x2, y: y2};
+        const axis  = directionVectors[forceDirection] || directionVectors.right;
+
+        // Nodes that the edge connects are where it starts and ends, so they can't be in the way
+        const obstacles = this.obstacles.filter(o => {
+            const reach = o.radius + this.clearance;
+            return ObstacleAvoidingEdgeRouter.distance(o, start) > reach && ObstacleAvoidingEdgeRouter.distance(o, end) > reach;
+        });
+
+        const points = [
+            start,
+            {x: x1 + this.stub * axis.x, y: y1 + this.stub * axis.y},
+            {x: x2 - this.stub * axis.x, y: y2 - this.stub * axis.y},
+            end
+        ];
+
+        let bent = false;
+
+        // Each pass bends one segment around the first node in its way, give up on graphs that are too crowded
+        for (let pass = 0; pass < obstacles.length * 2 + 10; pass++) {
+            const detour = this.findDetour(points, obstacles);
+
+            if (!detour) {
+                break;
+            }
+
+            points.splice(detour.index, 0, detour.point);
+            bent = true;
+        }
+
+        if (!bent) {
+            return this.bezier.makePath(x1, y1, x2, y2, forceDirection);
+        }
+
+        return ObstacleAvoidingEdgeRouter.makeSpline(points);
+    }
+
+    /**
+     * Finds the first segment of the route that crosses a node, and a point beside that node to bend the segment through
+     * @returns index at which the bend should be inserted into the route, or undefined if the route is clear
+     */
+    private findDetour(points: Point[],
+                       obstacles: EdgeObstacle[]): { index: number, point: Point } | undefined {
+
+        // The first and the last segments are stubs that leave and enter ports
+        for (let i = 1; i < points.length - 2; i++) {
+            const a = points[i];
+            const b = points[i + 1];
+
+            let closest: { obstacle: EdgeObstacle, t: number, point: Point };
+
+            for (const obstacle of obstacles) {
+                const {t, point} = ObstacleAvoidingEdgeRouter.projectOntoSegment(obstacle, a, b);
+
+                if (ObstacleAvoidingEdgeRouter.distance(obstacle, point) >= obstacle.radius + this.clearance) {
+                    continue;
+                }
+
+                if (!closest || t < closest.t) {
+                    closest = {obstacle, t, point};
+                }
+            }
+
+            if (!closest) {
+                continue;
+            }
+
+            const {obstacle, point} = closest;
+            const reach             = obstacle.radius + this.clearance * 2;
+
+            // Push the segment away from the center of the node, towards the side it is already leaning to
+            let dx     = point.x - obstacle.x;
+            let dy     = point.y - obstacle.y;
+            let length = Math.sqrt(dx * dx + dy * dy);
+
+            if (length < 1) {
+                dx     = -(b.y - a.y);
+                dy     = b.x - a.x;
+                length = Math.sqrt(dx * dx + dy * dy) || 1;
+            }
+
+            return {
+                index: i + 1,
+                point: {
+                    x: obstacle.x + dx / length * reach,
+                    y: obstacle.y + dy / length * reach
+                }
+            };
+        }
+
+        return undefined;
+    }
+
+    /**
+     * Makes a smooth curve through all points by turning Catmull-Rom segments into cubic beziers
+     */
+    private static makeSpline(points: Point[]): string {
+        let path = `M ${points[0].x} ${points[0].y}`;
+
+        for (let i = 0; i < points.length - 1; i++) {
+            const p0 = points[Math.max(i - 1, 0)];
+            const p1 = points[i];
+            const p2 = points[i + 1];
+            const p3 = points[Math.min(i + 2, points.length - 1)];
+
+            const c1x = p1.x + (p2.x - p0.x) / 6;
+            const c1y = p1.y + (p2.y - p0.y) / 6;
+            const c2x = p2.x - (p3.x - p1.x) / 6;
+            const c2y = p2.y - (p3.y - p1.y) / 6;
+
+            path += ` C ${c1x} ${c1y} ${c2x} ${c2y} ${p2.x} ${p2.y}`;
+        }
+
+        return path;
+    }
+
+    private static projectOntoSegment(point: Point,
+                                      a: Point,
+                                      b: Point): { t: number, point: Point } {
+        const dx     = b.x - a.x;
+        const dy     = b.y - a.y;
+        const length = dx * dx + dy * dy;
+        const t      = length === 0 ? 0 : Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / length));
+
+        return {t, point: {x: a.x + dx * t, y: a.y + dy * t}};
+    }
+
+    private static distance(a: Point, b: Point): number {
+        return Math.sqrt(Math.pow(a.x - b.x, 2) + Math.pow(a.y - b.y, 2));
+    }
+}
@@ -1,15 +1,38 @@
 import {Edge as ModelEdge} from "cwlts/models";
 import {Geometry} from "../utils/geometry";
-import {IOPort} from "./io-port";
-import {Workflow} from "./workflow";
+import {HtmlUtils} from "../utils/html-utils";
+import {BezierEdgeRouter, EdgeRouter} from "./edge-router";
 
 export class Edge {
 
-    static makeTemplate(edge: ModelEdge, containerNode: SVGGElement, connectionStates?: string): string {
+    static makeTemplate(edge: ModelEdge,
+                        containerNode: SVGGElement,
+                        connectionStates?: string,
+                        router: EdgeRouter = new BezierEdgeRouter(),
+                        direction = "right"): string {
         if (!edge.isVisible || edge.source.type === "Step" || edge.destination.type === "Step") {
             return "";
         }
 
+        const pathStr = Edge.makePath(edge, containerNode, router, direction);
+
+        if (pathStr === undefined) {
+            return;
+        }
+
+        return Edge.makeTemplateFromPath(edge, pathStr, connectionStates);
+    }
+
+    /**
+     * Measures the rendered ports that the edge connects and makes a path between them.
+     * Returns undefined if the edge cannot be drawn.
+     * @param direction Direction in which the edge leaves its source port, see {@link GraphOrientation.getEdgeDirection}
+     */
+    static makePath(edge: ModelEdge,
+                    containerNode: SVGGElement,
+                    router: EdgeRouter = new BezierEdgeRouter(),
+                    direction = "right"): string | undefined {
+
         let [sourceSide, sourceStepId, sourcePort] = edge.source.id.split("/");
         let [destSide, destStepId, destPort]       = edge.destination.id.split("/");
 
@@ -36,15 +59,28 @@ export class Edge {
 
         const wfMatrix = containerNode.transform.baseVal.getItem(0).matrix;
 
-        const pathStr = Workflow.makeConnectionPath(
+        return router.makePath(
             (sourceCTM.e - wfMatrix.e) / sourceCTM.a,
             (sourceCTM.f - wfMatrix.f) / sourceCTM.a,
             (destCTM.e - wfMatrix.e) / sourceCTM.a,
-            (destCTM.f - wfMatrix.f) / sourceCTM.a
+            (destCTM.f - wfMatrix.f) / sourceCTM.a,
+            direction
         );
+    }
+
+    /**
+     * Makes the edge markup for an already calculated path, so it doesn't need a rendered graph to measure ports
+     */
+    static makeTemplateFromPath(edge: ModelEdge, pathStr: string, connectionStates = ""): string {
+
+        let [sourceSide, sourceStepId, sourcePort] = edge.source.id.split("/");
+        let [destSide, destStepId, destPort]       = edge.destination.id.split("/");
 
         return `
             <g tabindex="-1" class="edge ${connectionStates}"
+               role="graphics-symbol"
+               aria-roledescription="edge"
+               aria-label="${HtmlUtils.escapeHTML(Edge.makeAccessibleName(edge.source, edge.destination))}"
                data-source-port="${sourcePort}"
                data-destination-port="${destPort}"
                data-source-node="${sourceStepId}"
@@ -76,6 +112,8 @@ export class Edge {
             edge.classList.add(destStepId);
         }
         edge.setAttribute("tabindex", "-1");
+        edge.setAttribute("role", "graphics-symbol");
+        edge.setAttribute("aria-roledescription", "edge");
         edge.setAttribute("data-destination-node", destStepId);
         edge.setAttribute("data-destination-port", destPort);
         edge.setAttribute("data-source-port", sourcePort);
@@ -83,6 +121,10 @@ export class Edge {
         edge.setAttribute("data-source-connection", connectionIDs.source);
         edge.setAttribute("data-destination-connection", connectionIDs.destination);
 
+        if (connectionIDs.source && connectionIDs.destination) {
+            edge.setAttribute("aria-label", Edge.makeAccessibleName({id: connectionIDs.source}, {id: connectionIDs.destination}));
+        }
+
         edge.innerHTML = `
             <path class="sub-edge outer" d="${pathStr}"></path>
             <path class="sub-edge inner" d="${pathStr}"></path>
@@ -91,7 +133,11 @@ export class Edge {
         return edge;
     }
 
-    static spawnBetweenConnectionIDs(root: SVGElement, source, destination) {
+    static spawnBetweenConnectionIDs(root: SVGElement,
+                                     source,
+                                     destination,
+                                     router: EdgeRouter = new BezierEdgeRouter(),
+                                     direction = "right") {
 
         if (source.startsWith("in")) {
             const tmp   = source;
@@ -104,7 +150,7 @@ export class Edge {
 
         const sourceCTM = Geometry.getTransformToElement(sourceNode, root);
         const destCTM   = Geometry.getTransformToElement(destinationNode, root);
-        const path      = IOPort.makeConnectionPath(sourceCTM.e, sourceCTM.f, destCTM.e, destCTM.f);
+        const path      = router.makePath(sourceCTM.e, sourceCTM.f, destCTM.e, destCTM.f, direction);
 
         // If there is already a connection between these ports, update that one instead
         const existingEdge = root.querySelector(`.edge[data-source-connection="${source}"][data-destination-connection="${destination}"]`);
@@ -132,6 +178,24 @@ export class Edge {
         return root.querySelector(`[data-source-connection="${sourceConnectionID}"][data-destination-connection="${destinationConnectionID}"]`);
     }
 
+    /**
+     * Describes the edge for assistive technology, like “Edge from fastqc.report to output report”
+     *
+     * Without node types, workflow inputs and outputs are told apart from step ports by their connection IDs,
+     * which repeat the node ID in place of the port ID.
+     */
+    static makeAccessibleName(source: { id: string, type?: string }, destination: { id: string, type?: string }): string {
+
+        const describe = (endpoint: { id: string, type?: string }, ioType: string, ioName: string): string => {
+            const {stepID, portID} = Edge.parseConnectionID(endpoint.id);
+            const isIO             = endpoint.type ? endpoint.type === ioType : stepID === portID;
+
+            return isIO ? `${ioName} ${stepID}` : `${stepID}.${portID}`;
+        };
+
+        return `Edge from ${describe(source, "WorkflowInput", "input")} to ${describe(destination, "WorkflowOutput", "output")}`;
+    }
+
     static parseConnectionID(cid) {
         let [side, stepID, portID] = (cid || "//").split("/");
         return {side, stepID, portID};
@@ -2,6 +2,7 @@ import {ParameterTypeModel, StepModel, WorkflowInputParameterModel, WorkflowOutp
 import {HtmlUtils} from "../utils/html-utils";
 import {SVGUtils} from "../utils/svg-utils";
 import {IOPort} from "./io-port";
+import {GraphOrientation, Orientation} from "./orientation";
 
 export type NodePosition = { x: number, y: number };
 export type NodeDataModel = WorkflowInputParameterModel | WorkflowOutputParameterModel | StepModel;
@@ -67,11 +68,12 @@ export class GraphNode {
         in?: any[],
         type?: ParameterTypeModel
         out?: any[],
+        run?: { class?: string },
         customProps?: {
             "sbg:x"?: number
             "sbg:y"?: number
         }
-    }, labelScale = 1): string {
+    }, labelScale = 1, orientation: Orientation = "LR"): string {
 
         const x = ~~(dataModel.customProps && dataModel.customProps["sbg:x"]);
         const y = ~~(dataModel.customProps && dataModel.customProps["sbg:y"]);
@@ -83,10 +85,9 @@ export class GraphNode {
             nodeTypeClass = "output";
         }
 
-        const inputs   = (dataModel["in"] || []).filter(p => p.isVisible);
-        const outputs  = (dataModel["out"] || []).filter(p => p.isVisible);
-        const maxPorts = Math.max(inputs.length, outputs.length);
-        const radius   = GraphNode.radius + maxPorts * IOPort.radius;
+        const inputs   = GraphNode.getVisiblePorts(dataModel, "input");
+        const outputs  = GraphNode.getVisiblePorts(dataModel, "output");
+        const radius   = GraphNode.getRadius(dataModel);
 
         let typeClass = "";
         let itemsClass = "";
@@ -105,41 +106,45 @@ export class GraphNode {
 
 
         const inputPortTemplates = inputs
-            .sort((a, b) => -a.id.localeCompare(b.id))
             .map((p, i, arr) => GraphNode.makePortTemplate(
                 p,
                 "input",
-                SVGUtils.matrixToTransformAttr(
-                    GraphNode.createPortMatrix(arr.length, i, radius, "input")
+                GraphNode.positionToTransformAttr(
+                    GraphNode.getPortOffset(arr.length, i, radius, "input", orientation)
                 )
             ))
             .reduce((acc, tpl) => acc + tpl, "");
 
         const outputPortTemplates = outputs
-            .sort((a, b) => -a.id.localeCompare(b.id))
             .map((p, i, arr) => GraphNode.makePortTemplate(
                 p,
                 "output",
-                SVGUtils.matrixToTransformAttr(
-                    GraphNode.createPortMatrix(arr.length, i, radius, "output")
+                GraphNode.positionToTransformAttr(
+                    GraphNode.getPortOffset(arr.length, i, radius, "output", orientation)
                 )
             ))
             .reduce((acc, tpl) => acc + tpl, "");
 
+        // Ports take the top and bottom of nodes in vertical orientations, so titles go to the side
+        const title = GraphOrientation.isVertical(orientation) ? {x: radius + 15, y: 0} : {x: 0, y: radius + 30};
+
         return `
             <g tabindex="-1" class="node ${nodeTypeClass} ${typeClass} ${itemsClass}"
+               role="graphics-object"
+               aria-roledescription="node"
+               aria-label="${HtmlUtils.escapeHTML(GraphNode.makeAccessibleName(dataModel))}"
                data-connection-id="${dataModel.connectionId}"
                transform="matrix(1, 0, 0, 1, ${x}, ${y})"
                data-id="${dataModel.id}">
                
-                <g class="core" transform="matrix(1, 0, 0, 1, 0, 0)">
+                <g class="core" transform="matrix(1, 0, 0, 1, 0, 0)" aria-hidden="true">
                     <circle cx="0" cy="0" r="${radius}" class="outer"></circle>
                     <circle cx="0" cy="0" r="${radius * .75}" class="inner"></circle>
                     
                     ${GraphNode.makeIconFragment(dataModel)}
                 </g>
                 
-                <text transform="matrix(${labelScale},0,0,${labelScale},0,${radius + 30})" class="title label">${HtmlUtils.escapeHTML(dataModel.label || dataModel.id)}</text>
+                <text transform="matrix(${labelScale},0,0,${labelScale},${title.x},${title.y})" class="title label" aria-hidden="true">${HtmlUtils.escapeHTML(dataModel.label || dataModel.id)}</text>
                 
                 ${inputPortTemplates}
                 ${outputPortTemplates}
@@ -159,14 +164,17 @@ export class GraphNode {
         const label     = port.label || port.id;
 
         return `
-            <g class="port ${portClass}" transform="${transform || "matrix(1, 0, 0, 1, 0, 0)"}"
+            <g tabindex="-1" class="port ${portClass}" transform="${transform || "matrix(1, 0, 0, 1, 0, 0)"}"
+               role="graphics-symbol"
+               aria-roledescription="port"
+               aria-label="${HtmlUtils.escapeHTML(`${type === "input" ? "Input" : "Output"} port ${label}`)}"
                data-connection-id="${port.connectionId}"
                data-port-id="${port.id}"
             >
                 <g class="io-port">
                     <circle cx="0" cy="0" r="7" class="port-handle"></circle>
                 </g>
-                <text x="0" y="0" transform="matrix(1,0,0,1,0,0)" class="label unselectable">${label}</text>
+                <text x="0" y="0" transform="matrix(1,0,0,1,0,0)" class="label unselectable" aria-hidden="true">${label}</text>
             </g>
             
         `;
@@ -175,7 +183,24 @@ export class GraphNode {
     public static createPortMatrix(totalPortLength: number,
                                    portIndex: number,
                                    radius: number,
-                                   type: "input" | "output"): SVGMatrix {
+                                   type: "input" | "output",
+                                   orientation: Orientation = "LR"): SVGMatrix {
+
+        const offset = GraphNode.getPortOffset(totalPortLength, portIndex, radius, type, orientation);
+        return SVGUtils.createMatrix().translate(offset.x, offset.y);
+    }
+
+    /**
+     * Calculates the position of a port relative to the center of its node.
+     * Ports are distributed over an arc on the left side of the node for inputs, and on the right side for outputs,
+     * which is then turned to face the direction in which the graph flows.
+     * Does not need a DOM, so it can be used for server-side rendering as well.
+     */
+    public static getPortOffset(totalPortLength: number,
+                                portIndex: number,
+                                radius: number,
+                                type: "input" | "output",
+                                orientation: Orientation = "LR"): NodePosition {
         const availableAngle = 140;
 
         let rotationAngle =
@@ -198,8 +223,102 @@ export class GraphNode {
                 * availableAngle / (totalPortLength + 1);
         }
 
-        const matrix = SVGUtils.createMatrix();
-        return matrix.rotate(rotationAngle).translate(radius, 0).rotate(-rotationAngle);
+        const radians = rotationAngle * Math.PI / 180;
+
+        return GraphOrientation.fromLeftToRight({
+            x: radius * Math.cos(radians),
+            y: radius * Math.sin(radians)
+        }, orientation);
+    }
+
+    /**
+     * Describes the node for assistive technology, like “Step bwa_mem, tool, 3 inputs, 2 outputs”
+     * or “Input reads, array of File”
+     */
+    static makeAccessibleName(dataModel: {
+        id: string,
+        label?: string,
+        in?: any[],
+        out?: any[],
+        type?: ParameterTypeModel,
+        run?: { class?: string }
+    }): string {
+
+        const name = dataModel.label || dataModel.id;
+
+        if (dataModel instanceof WorkflowInputParameterModel || dataModel instanceof WorkflowOutputParameterModel) {
+            const kind = dataModel instanceof WorkflowInputParameterModel ? "Input" : "Output";
+            const type = dataModel.type && dataModel.type.type;
+
+            if (!type) {
+                return `${kind} ${name}`;
+            }
+
+            return `${kind} ${name}, ` + (type === "array" && dataModel.type.items ? `array of ${dataModel.type.items}` : type);
+        }
+
+        const appClasses = {
+            CommandLineTool: "tool",
+            ExpressionTool: "expression",
+            Workflow: "workflow"
+        };
+
+        const parts   = [`Step ${name}`];
+        const app     = dataModel.run && appClasses[dataModel.run.class];
+        const inputs  = GraphNode.getVisiblePorts(dataModel, "input").length;
+        const outputs = GraphNode.getVisiblePorts(dataModel, "output").length;
+
+        if (app) {
+            parts.push(app);
+        }
+
+        parts.push(
+            `${inputs} ${inputs === 1 ? "input" : "inputs"}`,
+            `${outputs} ${outputs === 1 ? "output" : "outputs"}`
+        );
+
+        return parts.join(", ");
+    }
+
+    /**
+     * Position stored on the model, or undefined if the node has not been placed yet
+     */
+    static getModelPosition(dataModel: { customProps?: any }): NodePosition | undefined {
+        const props = dataModel.customProps || {};
+        const x     = parseFloat(props["sbg:x"]);
+        const y     = parseFloat(props["sbg:y"]);
+
+        if (isNaN(x) || isNaN(y)) {
+            return undefined;
+        }
+
+        return {x, y};
+    }
+
+    /**
+     * Node radius grows with the number of ports on its more crowded side
+     */
+    static getRadius(dataModel: { in?: any[], out?: any[] }): number {
+        const inputs  = GraphNode.getVisiblePorts(dataModel, "input");
+        const outputs = GraphNode.getVisiblePorts(dataModel, "output");
+
+        return GraphNode.radius + Math.max(inputs.length, outputs.length) * IOPort.radius;
+    }
+
+    /**
+     * Visible ports of a node on the given side, in the order in which they are drawn
+     */
+    static getVisiblePorts<T extends { id: string, isVisible: boolean }>(dataModel: { in?: T[], out?: T[] },
+                                                                         type: "input" | "output"): T[] {
+        const ports = (type === "input" ? dataModel["in"] : dataModel["out"]) || [];
+
+        return ports
+            .filter(p => p.isVisible)
+            .sort((a, b) => -a.id.localeCompare(b.id));
+    }
+
+    private static positionToTransformAttr(position: NodePosition): string {
+        return `matrix(1, 0, 0, 1, ${position.x}, ${position.y})`;
     }
 
     static patchModelPorts<T>(model: T & { connectionId: string, id: string }): T {
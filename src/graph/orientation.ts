@@ -0,0 +1,81 @@
+/**
+ * Direction in which the graph flows, from inputs towards outputs.
+ * “LR” is left to right, “TB” top to bottom, “RL” right to left and “BT” bottom to top.
+ */
+export type Orientation = "LR" | "TB" | "RL" | "BT";
+
+/**
+ * Converts between the left-to-right geometry that nodes, ports and layouts are designed in, and the actual orientation.
+ *
+ * Horizontal orientations mirror the graph, and vertical ones flip it over the diagonal,
+ * so ports that are listed first stay on top in horizontal orientations and on the left in vertical ones.
+ */
+export class GraphOrientation {
+
+    static isVertical(orientation: Orientation): boolean {
+        return orientation === "TB" || orientation === "BT";
+    }
+
+    /**
+     * Class that the SVG root gets, so that port and node labels can be placed to suit the orientation
+     */
+    static getCSSClass(orientation: Orientation = "LR"): string {
+        return "orientation-" + orientation.toLowerCase();
+    }
+
+    /**
+     * Direction in which edges leave output ports, or input ports if the edge is being drawn backwards,
+     * as edge routers take it
+     */
+    static getEdgeDirection(orientation: Orientation = "LR", backwards = false): "right" | "left" | "down" | "up" {
+        const directions: { [orientation: string]: Array<"right" | "left" | "down" | "up"> } = {
+            LR: ["right", "left"],
+            RL: ["left", "right"],
+            TB: ["down", "up"],
+            BT: ["up", "down"]
+        };
+
+        return (directions[orientation] || directions.LR)[backwards ? 1 : 0];
+    }
+
+    /**
+     * Turns a position or an offset from the left-to-right geometry into the given orientation
+     */
+    static fromLeftToRight(point: { x: number, y: number }, orientation: Orientation = "LR"): { x: number, y: number } {
+        switch (orientation) {
+            case "RL":
+                return {x: -point.x, y: point.y};
+            case "TB":
+                return {x: point.y, y: point.x};
+            case "BT":
+                return {x: point.y, y: -point.x};
+            default:
+                return {x: point.x, y: point.y};
+        }
+    }
+
+    /**
+     * Turns a position or an offset from the given orientation into the left-to-right geometry
+     */
+    static toLeftToRight(point: { x: number, y: number }, orientation: Orientation = "LR"): { x: number, y: number } {
+        switch (orientation) {
+            case "RL":
+                return {x: -point.x, y: point.y};
+            case "TB":
+                return {x: point.y, y: point.x};
+            case "BT":
+                return {x: -point.y, y: point.x};
+            default:
+                return {x: point.x, y: point.y};
+        }
+    }
+
+    /**
+     * Turns dimensions of a rectangle from the given orientation into the left-to-right geometry
+     */
+    static toLeftToRightRect(rect: { width: number, height: number }, orientation: Orientation = "LR"): { width: number, height: number } {
+        return GraphOrientation.isVertical(orientation)
+            ? {width: rect.height, height: rect.width}
+            : {width: rect.width, height: rect.height};
+    }
+}
@@ -0,0 +1,142 @@
+import {LayoutRect}                    from "../layout/column-layout";
+import {PlacedNode, SubgraphPlacement} from "../layout/subgraph-placement";
+import {SVGUtils}                      from "../utils/svg-utils";
+import {GraphNode}                     from "./graph-node";
+import {GraphOrientation}              from "./orientation";
+import {Workflow}                      from "./workflow";
+
+/**
+ * Puts single nodes into free space next to the nodes they connect to, leaving all other nodes where they are.
+ * Nodes that have no positions yet are not considered to be in the way.
+ *
+ * This only updates the model and the canvas, whoever adds the node is the one to report the change.
+ */
+export class NodePlacement {
+
+    /**
+     * @param workflow Workflow that the node is drawn in
+     * @param connectionID connection ID of the node to place
+     * @param preferred Position in canvas coordinates to place the node as close to as possible, instead of next to its neighbours
+     * @returns position that the node got, or undefined if there is no such node
+     */
+    static place(workflow: Workflow, connectionID: string, preferred?: { x: number, y: number }): { x: number, y: number } | undefined {
+
+        const element = workflow.svgRoot.querySelector(`.node[data-connection-id="${connectionID}"]`) as SVGGElement;
+
+        if (!element) {
+            return undefined;
+        }
+
+        const orientation = workflow.orientation;
+
+        NodePlacement.setLabelScale(workflow, 1);
+
+        const rect = NodePlacement.measure(workflow, element);
+
+        const fixedNodes = {} as { [connectionID: string]: PlacedNode };
+        for (const node of Array.from(workflow.svgRoot.querySelectorAll(".node")) as SVGGElement[]) {
+            const id = node.getAttribute("data-connection-id");
+
+            if (id !== connectionID && GraphNode.getModelPosition(workflow.model.findById(id))) {
+                fixedNodes[id] = NodePlacement.measurePlaced(workflow, node);
+            }
+        }
+
+        NodePlacement.setLabelScale(workflow, workflow.labelScale);
+
+        const {predecessors, successors} = NodePlacement.findNeighbours(workflow, element);
+
+        // A node without a preferred position or neighbours goes to the middle of what is in view
+        let fallback = preferred;
+        if (!fallback) {
+            const viewport = workflow.svgRoot.getBoundingClientRect();
+            fallback       = workflow.transformScreenCTMtoCanvas(viewport.left + viewport.width / 2, viewport.top + viewport.height / 2);
+        }
+
+        const placed = SubgraphPlacement.place(
+            {[connectionID]: {x: 0, y: 0}},
+            {[connectionID]: rect},
+            Object.keys(fixedNodes).map(id => fixedNodes[id]),
+            preferred ? [] : predecessors.filter(id => fixedNodes[id]).map(id => fixedNodes[id]),
+            preferred ? [] : successors.filter(id => fixedNodes[id]).map(id => fixedNodes[id]),
+            GraphOrientation.toLeftToRight(fallback, orientation)
+        );
+
+        const position  = GraphOrientation.fromLeftToRight(placed[connectionID], orientation);
+        const nodeModel = workflow.model.findById(connectionID);
+
+        if (!nodeModel.customProps) {
+            nodeModel.customProps = {};
+        }
+
+        Object.assign(nodeModel.customProps, {
+            "sbg:x": position.x,
+            "sbg:y": position.y
+        });
+
+        element.setAttribute("transform", SVGUtils.matrixToTransformAttr(SVGUtils.createMatrix().translate(position.x, position.y)));
+        workflow.redrawEdges();
+
+        return position;
+    }
+
+    /**
+     * Measures an element in canvas units, turned into the left-to-right direction that layouts work in
+     */
+    static measure(workflow: Workflow, element: Element): LayoutRect {
+        const rect  = element.getBoundingClientRect();
+        const scale = workflow.scale;
+
+        return GraphOrientation.toLeftToRightRect({width: rect.width / scale, height: rect.height / scale}, workflow.orientation);
+    }
+
+    /**
+     * Measures a node along with where it currently is, both turned into the left-to-right direction
+     */
+    static measurePlaced(workflow: Workflow, element: SVGGElement): PlacedNode {
+        const matrix   = element.transform.baseVal.getItem(0).matrix;
+        const position = GraphOrientation.toLeftToRight({x: matrix.e, y: matrix.f}, workflow.orientation);
+
+        return {...position, ...NodePlacement.measure(workflow, element)};
+    }
+
+    /**
+     * Scales all node labels, nodes are measured with their labels at scale 1
+     */
+    static setLabelScale(workflow: Workflow, scale: number): void {
+        for (const label of Array.from(workflow.workflow.querySelectorAll(".node .label")) as SVGTextElement[]) {
+            const matrix = label.transform.baseVal.getItem(0).matrix;
+
+            matrix.a = scale;
+            matrix.d = scale;
+        }
+    }
+
+    /**
+     * @returns connection IDs of nodes with edges that lead into the node, and of those with edges that come out of it
+     */
+    private static findNeighbours(workflow: Workflow, element: SVGGElement): { predecessors: string[], successors: string[] } {
+
+        const nodeID       = element.getAttribute("data-id");
+        const predecessors = [];
+        const successors   = [];
+
+        const findConnectionID = (id: string) => {
+            const node = workflow.svgRoot.querySelector(`.node[data-id="${id}"]`);
+            return node && node.getAttribute("data-connection-id");
+        };
+
+        for (const edge of Array.from(workflow.svgRoot.querySelectorAll(".edge"))) {
+            const source      = edge.getAttribute("data-source-node");
+            const destination = edge.getAttribute("data-destination-node");
+
+            if (destination === nodeID && source !== nodeID) {
+                predecessors.push(findConnectionID(source));
+            } else if (source === nodeID && destination !== nodeID) {
+                successors.push(findConnectionID(destination));
+            }
+        }
+
+        return {predecessors, successors};
+    }
+}
@@ -0,0 +1,181 @@
+import {Edge as ModelEdge} from "cwlts/models";
+import {Edge}              from "./edge";
+import {EdgeRouter}        from "./edge-router";
+import {TemplateParser}    from "./template-parser";
+
+type RenderedNode = {
+
+    /** Template from which the node was last patched, used to skip parsing when nothing changed */
+    template: string,
+
+    /** Markup of node children at the time of the last patch */
+    inner: string,
+
+    /** Classes that the template gave to the node, so we can tell them apart from the ones plugins added */
+    classes: string[],
+
+    /** Names of attributes that the template gave to the node, same as classes */
+    attributes: string[]
+};
+
+/**
+ * Brings rendered nodes and edges in line with the model by patching only the elements that changed.
+ * Elements that are kept keep their DOM state, like focus and classes added by plugins.
+ *
+ * Nodes are keyed by their connection ID, and edges by the connection IDs of their source and destination.
+ */
+export class GraphReconciler {
+
+    private renderedNodes = new Map<string, RenderedNode>();
+
+    constructor(private container: SVGGElement) {
+    }
+
+    static edgeKey(sourceConnectionID: string, destinationConnectionID: string): string {
+        // IDs are read back from element attributes, and XML can't hold a NUL character, so no ID contains it
+        return sourceConnectionID + "\u0000" + destinationConnectionID;
+    }
+
+    /**
+     * @param templates Node templates indexed by the connection ID of the node
+     */
+    reconcileNodes(templates: Map<string, string>): void {
+
+        const existing = this.indexChildren("node", el => el.getAttribute("data-connection-id"));
+
+        existing.forEach((el, connectionID) => {
+            if (!templates.has(connectionID)) {
+                el.remove();
+                this.renderedNodes.delete(connectionID);
+            }
+        });
+
+        this.renderedNodes.forEach((rendered, connectionID) => {
+            if (!existing.has(connectionID)) {
+                this.renderedNodes.delete(connectionID);
+            }
+        });
+
+        templates.forEach((template, connectionID) => {
+
+            const rendered = this.renderedNodes.get(connectionID);
+            const el       = existing.get(connectionID);
+
+            if (el && rendered && rendered.template === template) {
+                return;
+            }
+
+            const fresh = TemplateParser.parse(template) as SVGGElement;
+
+            if (el) {
+                this.patchNode(el, fresh, rendered);
+            } else {
+                this.container.appendChild(fresh);
+            }
+
+            this.renderedNodes.set(connectionID, {
+                template,
+                inner: fresh.innerHTML,
+                classes: Array.from(fresh.classList),
+                attributes: Array.from(fresh.attributes).map(attr => attr.name)
+            });
+        });
+    }
+
+    /**
+     * Edges are measured from rendered ports, so nodes should be reconciled first
+     */
+    reconcileEdges(edges: ModelEdge[], router: EdgeRouter, direction = "right"): void {
+
+        const existing = this.indexChildren("edge", el => GraphReconciler.edgeKey(
+            el.getAttribute("data-source-connection"),
+            el.getAttribute("data-destination-connection")
+        ));
+
+        const drawn = new Set<string>();
+
+        for (const edge of edges) {
+
+            if (!edge.isVisible || edge.source.type === "Step" || edge.destination.type === "Step") {
+                continue;
+            }
+
+            const key  = GraphReconciler.edgeKey(edge.source.id, edge.destination.id);
+            const path = Edge.makePath(edge, this.container, router, direction);
+
+            if (path === undefined) {
+                continue;
+            }
+
+            drawn.add(key);
+
+            const el = existing.get(key);
+
+            if (el) {
+                for (const subEdge of Array.from(el.querySelectorAll(".sub-edge"))) {
+                    if (subEdge.getAttribute("d") !== path) {
+                        subEdge.setAttribute("d", path);
+                    }
+                }
+                continue;
+            }
+
+            const firstNode = this.container.querySelector(".node");
+            this.container.insertBefore(TemplateParser.parse(Edge.makeTemplateFromPath(edge, path)), firstNode);
+        }
+
+        existing.forEach((el, key) => {
+            if (!drawn.has(key)) {
+                el.remove();
+            }
+        });
+    }
+
+    /**
+     * Forgets everything that was rendered, should be called when the container gets emptied
+     */
+    reset(): void {
+        this.renderedNodes.clear();
+    }
+
+    private patchNode(el: SVGGElement, fresh: SVGGElement, rendered?: RenderedNode): void {
+
+        const previousClasses = rendered ? rendered.classes : [];
+        const addedByOthers   = Array.from(el.classList).filter(cls => previousClasses.indexOf(cls) === -1);
+
+        // Attributes that the previous template had and the new one doesn't are stale, others were set by plugins
+        for (const name of rendered ? rendered.attributes : []) {
+            if (name !== "class" && !fresh.hasAttribute(name)) {
+                el.removeAttribute(name);
+            }
+        }
+
+        for (const attr of Array.from(fresh.attributes)) {
+            if (attr.name === "class") {
+                continue;
+            }
+
+            if (el.getAttribute(attr.name) !== attr.value) {
+                el.setAttribute(attr.name, attr.value);
+            }
+        }
+
+        el.setAttribute("class", [...Array.from(fresh.classList), ...addedByOthers].join(" "));
+
+        if (!rendered || rendered.inner !== fresh.innerHTML) {
+            el.innerHTML = fresh.innerHTML;
+        }
+    }
+
+    private indexChildren(cls: string, key: (el: Element) => string): Map<string, SVGGElement> {
+        const index = new Map<string, SVGGElement>();
+
+        for (const el of Array.from(this.container.children)) {
+            if (el.classList.contains(cls) && !el.classList.contains("ghost")) {
+                index.set(key(el), el as SVGGElement);
+            }
+        }
+
+        return index;
+    }
+}
@@ -1,6 +1,8 @@
 import {StepModel} from "cwlts/models";
 import {Edge} from "./edge";
+import {BezierEdgeRouter, EdgeRouter} from "./edge-router";
 import {GraphNode} from "./graph-node";
+import {GraphOrientation, Orientation} from "./orientation";
 import {TemplateParser} from "./template-parser";
 
 export class StepNode {
@@ -9,7 +11,10 @@ export class StepNode {
     private stepEl: SVGElement;
     private model: StepModel;
 
-    constructor(element: SVGElement, stepModel: StepModel) {
+    constructor(element: SVGElement,
+                stepModel: StepModel,
+                private orientation: Orientation = "LR",
+                private edgeRouter: EdgeRouter = new BezierEdgeRouter()) {
 
         this.stepEl = element;
         this.svg    = element.ownerSVGElement;
@@ -18,7 +23,7 @@ export class StepNode {
     }
 
     update() {
-        const tpl = GraphNode.makeTemplate(this.model);
+        const tpl = GraphNode.makeTemplate(this.model, 1, this.orientation);
         const el  = TemplateParser.parse(tpl);
 
         this.stepEl.innerHTML = el.innerHTML;
@@ -31,7 +36,9 @@ export class StepNode {
             Edge.spawnBetweenConnectionIDs(
                 this.svg.querySelector(".workflow") as SVGGElement,
                 edge.getAttribute("data-source-connection"),
-                edge.getAttribute("data-destination-connection")
+                edge.getAttribute("data-destination-connection"),
+                this.edgeRouter,
+                GraphOrientation.getEdgeDirection(this.orientation)
             );
         }
 
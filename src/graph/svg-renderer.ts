@@ -0,0 +1,108 @@
+import {WorkflowModel}                 from "cwlts/models";
+import {ArrangeLayout, GraphLayout}    from "../layout/graph-layout";
+import {Edge}                          from "./edge";
+import {EdgeRouter}                    from "./edge-router";
+import {GraphNode}                     from "./graph-node";
+import {GraphOrientation, Orientation} from "./orientation";
+
+export interface SvgRendererOptions {
+
+    /** Scale of node labels, same as {@link Workflow.labelScale} */
+    labelScale?: number;
+
+    /**
+     * Whether nodes should be arranged before rendering.
+     * By default, arranging is done only if some node is missing its coordinates, same as in the browser.
+     */
+    arrange?: boolean;
+
+    /** Algorithm to arrange nodes with, same as the layout option of {@link SVGArrangePlugin} */
+    layout?: ArrangeLayout;
+
+    /** Space around the graph in a standalone document */
+    padding?: number;
+
+    /** CSS to embed into a standalone document, since it can't rely on the page stylesheets */
+    styles?: string;
+
+    /** Shapes edges, same as {@link Workflow.edgeRouter}, bezier curves are drawn by default */
+    edgeRouter?: EdgeRouter;
+
+    /** Direction in which the graph flows, same as {@link Workflow.orientation}, left to right by default */
+    orientation?: Orientation;
+}
+
+/**
+ * Renders a workflow model into SVG markup without a DOM,
+ * so thumbnails and diagrams can be made on the server.
+ */
+export class SvgRenderer {
+
+    readonly layout: GraphLayout;
+
+    private options: SvgRendererOptions = {
+        labelScale: 1,
+        padding: 50
+    };
+
+    constructor(model: WorkflowModel, options: SvgRendererOptions = {}) {
+        Object.assign(this.options, options);
+
+        this.layout = new GraphLayout(model, this.options.orientation);
+
+        const shouldArrange = this.options.arrange !== undefined ? this.options.arrange : !this.layout.hasCoordinates();
+        if (shouldArrange) {
+            this.layout.arrange(this.options.layout);
+        }
+    }
+
+    /**
+     * Makes the same markup that {@link Workflow.draw} puts into the SVG root
+     */
+    renderContent(): string {
+        return `
+            <rect x="0" y="0" width="100%" height="100%" class="pan-handle" transform="matrix(1,0,0,1,0,0)"></rect>
+            <g class="workflow" transform="matrix(1,0,0,1,0,0)">${this.renderEdges()}${this.renderNodes()}</g>
+        `;
+    }
+
+    /**
+     * Makes a standalone SVG document with a view box that fits the whole graph
+     */
+    render(): string {
+        const padding = this.options.padding;
+        const bounds  = this.layout.getBounds();
+        const viewBox = [
+            bounds.x - padding / 2,
+            bounds.y - padding / 2,
+            bounds.width + padding,
+            bounds.height + padding
+        ].join(" ");
+
+        return `<svg xmlns="http://www.w3.org/2000/svg" class="cwl-workflow ${GraphOrientation.getCSSClass(this.options.orientation)}" viewBox="${viewBox}" width="${bounds.width + padding}" height="${bounds.height + padding}">`
+            + (this.options.styles ? `<style>${this.options.styles}</style>` : "")
+            + `<g class="workflow" transform="matrix(1,0,0,1,0,0)">${this.renderEdges()}${this.renderNodes()}</g>`
+            + `</svg>`;
+    }
+
+    private renderNodes(): string {
+        return this.layout.getNodes()
+            .map(node => {
+                // Node templates read coordinates from the model, so give them a view of it with the laid out position
+                const positioned = Object.create(node.model);
+                positioned.customProps = Object.assign({}, node.model.customProps, {
+                    "sbg:x": node.position.x,
+                    "sbg:y": node.position.y
+                });
+
+                return GraphNode.makeTemplate(positioned, this.options.labelScale, this.options.orientation);
+            })
+            .reduce((acc, tpl) => acc + tpl, "");
+    }
+
+    private renderEdges(): string {
+        return this.layout.getEdges(this.options.edgeRouter)
+            .map(({edge, path}) => Edge.makeTemplateFromPath(edge, path))
+            .reduce((acc, tpl) => acc + tpl, "");
+    }
+}
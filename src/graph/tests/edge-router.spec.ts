@@ -0,0 +1,189 @@
+import {
+    BezierEdgeRouter,
+    EdgeObstacle,
+    EdgeRouter,
+    ObstacleAvoidingEdgeRouter,
+    OrthogonalEdgeRouter,
+    StraightEdgeRouter
+} from "../edge-router";
+
+describe("Edge routers", () => {
+
+    type Point = { x: number, y: number };
+
+    const directions: Array<[string, Point, Point]> = [
+        ["right", {x: 10, y: 20}, {x: 310, y: 120}],
+        ["left", {x: 310, y: 120}, {x: 10, y: 20}],
+        ["down", {x: 10, y: 20}, {x: 110, y: 320}],
+        ["up", {x: 110, y: 320}, {x: 10, y: 20}]
+    ];
+
+    /**
+     * Reads the points that path commands go through, control points included
+     */
+    function readPoints(path: string): Point[] {
+        const numbers = path.replace(/[A-Za-z]/g, " ").trim().split(/\s+/).map(Number);
+        const points  = [];
+
+        for (let i = 0; i < numbers.length; i += 2) {
+            points.push({x: numbers[i], y: numbers[i + 1]});
+        }
+
+        return points;
+    }
+
+    function expectToConnect(router: EdgeRouter, start: Point, end: Point, direction?: string) {
+        const points = readPoints(router.makePath(start.x, start.y, end.x, end.y, direction));
+
+        expect(points[0]).toEqual(start);
+        expect(points[points.length - 1]).toEqual(end);
+    }
+
+    it("start and end edges at the ports they connect", () => {
+
+        const routers: Array<[string, EdgeRouter]> = [
+            ["bezier", new BezierEdgeRouter()],
+            ["straight", new StraightEdgeRouter()],
+            ["orthogonal", new OrthogonalEdgeRouter()]
+        ];
+
+        for (const [name, router] of routers) {
+            for (const [direction, start, end] of directions) {
+                expectToConnect(router, start, end, direction);
+            }
+
+            // Edges that are dragged the wrong way, and edges without a direction
+            expectToConnect(router, {x: 300, y: 10}, {x: 0, y: 200}, "right");
+            expectToConnect(router, {x: 0, y: 300}, {x: 200, y: 0}, "down");
+            expectToConnect(router, {x: 0, y: 0}, {x: 200, y: 100}, undefined);
+        }
+    });
+
+    it("draw straight edges as a single line", () => {
+        expect(new StraightEdgeRouter().makePath(10, 20, 310, 120)).toBe("M 10 20 L 310 120");
+    });
+
+    it("draw orthogonal edges out of horizontal and vertical segments", () => {
+
+        const router = new OrthogonalEdgeRouter(20);
+
+        const cases: Array<[string, Point, Point]> = directions.concat([
+            ["right", {x: 300, y: 10}, {x: 0, y: 200}],
+            ["down", {x: 0, y: 300}, {x: 200, y: 0}]
+        ]);
+
+        for (const [direction, start, end] of cases) {
+            const points = readPoints(router.makePath(start.x, start.y, end.x, end.y, direction));
+
+            for (let i = 1; i < points.length; i++) {
+                const isAxisAligned = points[i].x === points[i - 1].x || points[i].y === points[i - 1].y;
+
+                expect(isAxisAligned).toBe(true, `segment ${i} of a “${direction}” edge is diagonal`);
+            }
+        }
+    });
+
+    it("leave ports in the direction of the graph", () => {
+
+        const router = new OrthogonalEdgeRouter(20);
+
+        // Edge going backwards leaves its output port forwards first
+        const backwards = readPoints(router.makePath(300, 10, 0, 200, "right"));
+        expect(backwards[1]).toEqual({x: 320, y: 10});
+
+        const downwards = readPoints(router.makePath(10, 20, 110, 320, "down"));
+        expect(downwards[1].x).toBe(10);
+        expect(downwards[1].y).toBeGreaterThan(20);
+    });
+});
+
+describe("Obstacle avoiding edge router", () => {
+
+    type Point = { x: number, y: number };
+
+    /**
+     * Walks along a path of cubic bezier segments, the way routers that avoid obstacles draw them
+     */
+    function sampleCurve(path: string, steps = 50): Point[] {
+        const numbers = path.replace(/[A-Za-z]/g, " ").trim().split(/\s+/).map(Number);
+        const samples = [{x: numbers[0], y: numbers[1]}];
+
+        for (let i = 2; i + 5 < numbers.length; i += 6) {
+            const [x0, y0]                 = [numbers[i - 2], numbers[i - 1]];
+            const [x1, y1, x2, y2, x3, y3] = numbers.slice(i, i + 6);
+
+            for (let step = 1; step <= steps; step++) {
+                const t = step / steps;
+                const u = 1 - t;
+
+                samples.push({
+                    x: u * u * u * x0 + 3 * u * u * t * x1 + 3 * u * t * t * x2 + t * t * t * x3,
+                    y: u * u * u * y0 + 3 * u * u * t * y1 + 3 * u * t * t * y2 + t * t * t * y3
+                });
+            }
+        }
+
+        return samples;
+    }
+
+    function findCollisions(path: string, obstacles: EdgeObstacle[]): EdgeObstacle[] {
+        const samples = sampleCurve(path);
+
+        return obstacles.filter(o => samples.some(p => Math.sqrt(Math.pow(p.x - o.x, 2) + Math.pow(p.y - o.y, 2)) < o.radius));
+    }
+
+    it("goes around nodes that stand between the ports", () => {
+
+        const router    = new ObstacleAvoidingEdgeRouter();
+        const obstacles = [{x: 200, y: 0, radius: 30}];
+
+        expect(findCollisions(new BezierEdgeRouter().makePath(0, 0, 400, 0), obstacles).length).toBe(1);
+
+        router.setObstacles(obstacles);
+        const path = router.makePath(0, 0, 400, 0, "right");
+
+        expect(findCollisions(path, obstacles)).toEqual([]);
+    });
+
+    it("goes around several nodes in a row, whichever way the graph flows", () => {
+
+        const router    = new ObstacleAvoidingEdgeRouter();
+        const obstacles = [
+            {x: 150, y: 10, radius: 30},
+            {x: 300, y: -10, radius: 30},
+            {x: 450, y: 20, radius: 40}
+        ];
+
+        const flip = (o: EdgeObstacle) => ({x: o.y, y: o.x, radius: o.radius});
+
+        router.setObstacles(obstacles);
+        expect(findCollisions(router.makePath(0, 0, 600, 0, "right"), obstacles)).toEqual([]);
+        expect(findCollisions(router.makePath(600, 0, 0, 0, "left"), obstacles)).toEqual([]);
+
+        router.setObstacles(obstacles.map(flip));
+        expect(findCollisions(router.makePath(0, 0, 0, 600, "down"), obstacles.map(flip))).toEqual([]);
+    });
+
+    it("starts and ends edges at the ports they connect", () => {
+
+        const router = new ObstacleAvoidingEdgeRouter();
+        router.setObstacles([{x: 200, y: 0, radius: 30}]);
+
+        const samples = sampleCurve(router.makePath(0, 0, 400, 0, "right"));
+
+        expect(samples[0]).toEqual({x: 0, y: 0});
+        expect(samples[samples.length - 1]).toEqual({x: 400, y: 0});
+    });
+
+    it("draws edges with a clear way as bezier curves, ignoring nodes that they connect", () => {
+
+        const router = new ObstacleAvoidingEdgeRouter();
+        router.setObstacles([
+            {x: -20, y: 0, radius: 30},
+            {x: 420, y: 0, radius: 30},
+            {x: 200, y: 300, radius: 30}
+        ]);
+
+        expect(router.makePath(0, 0, 400, 50, "right")).toBe(new BezierEdgeRouter().makePath(0, 0, 400, 50, "right"));
+    });
+});
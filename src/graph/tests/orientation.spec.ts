@@ -0,0 +1,50 @@
+import {GraphOrientation, Orientation} from "../orientation";
+
+describe("Graph orientation", () => {
+
+    const orientations: Orientation[] = ["LR", "TB", "RL", "BT"];
+
+    const points = [
+        {x: 0, y: 0},
+        {x: 120, y: -35},
+        {x: -80, y: 240},
+        {x: 17.5, y: 3}
+    ];
+
+    it("turns points back to where they were", () => {
+        for (const orientation of orientations) {
+            for (const point of points) {
+                const turned = GraphOrientation.fromLeftToRight(point, orientation);
+
+                expect(GraphOrientation.toLeftToRight(turned, orientation)).toEqual(point);
+                expect(GraphOrientation.fromLeftToRight(GraphOrientation.toLeftToRight(point, orientation), orientation)).toEqual(point);
+            }
+        }
+    });
+
+    it("makes the graph flow in the direction of its edges", () => {
+        const forward = {x: 100, y: 0};
+
+        const directionVectors = {
+            right: {x: 100, y: 0},
+            left: {x: -100, y: 0},
+            down: {x: 0, y: 100},
+            up: {x: 0, y: -100}
+        };
+
+        for (const orientation of orientations) {
+            const direction = GraphOrientation.getEdgeDirection(orientation);
+
+            expect(GraphOrientation.fromLeftToRight(forward, orientation)).toEqual(directionVectors[direction]);
+        }
+    });
+
+    it("swaps dimensions of rectangles in vertical orientations", () => {
+        const rect = {width: 300, height: 100};
+
+        expect(GraphOrientation.toLeftToRightRect(rect, "LR")).toEqual(rect);
+        expect(GraphOrientation.toLeftToRightRect(rect, "RL")).toEqual(rect);
+        expect(GraphOrientation.toLeftToRightRect(rect, "TB")).toEqual({width: 100, height: 300});
+        expect(GraphOrientation.toLeftToRightRect(rect, "BT")).toEqual({width: 100, height: 300});
+    });
+});
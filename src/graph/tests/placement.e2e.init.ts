@@ -0,0 +1,15 @@
+import "../../assets/styles/theme";
+import {WorkflowFactory} from "cwlts/models";
+import {Workflow}        from "../../";
+import {NodePlacement}   from "../placement";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: document.getElementById("svg") as any
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, NodePlacement});
@@ -0,0 +1,138 @@
+import {browser}       from "protractor";
+import {serveCompiled} from "../../utils/test-utils";
+
+describe("Node placement", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    type NodeBox = { x: number, y: number, left: number, top: number, right: number, bottom: number };
+
+    function expectOthersToStay(before: { [id: string]: NodeBox }, after: { [id: string]: NodeBox }, placed: string) {
+        for (const id in before) {
+            if (id !== placed) {
+                expect({x: after[id].x, y: after[id].y}).toEqual({x: before[id].x, y: before[id].y}, `${id} got moved`);
+            }
+        }
+    }
+
+    function expectNoOverlaps(nodes: { [id: string]: NodeBox }, placed: string) {
+        const box = nodes[placed];
+
+        for (const id in nodes) {
+            const other    = nodes[id];
+            const overlaps = other.left < box.right && box.left < other.right && other.top < box.bottom && box.top < other.bottom;
+
+            if (id !== placed) {
+                expect(overlaps).toBe(false, `${placed} covers ${id}`);
+            }
+        }
+    }
+
+    it("puts a created step into free space in the middle of the view, without the arrange plugin", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf}      = window as any;
+            const readNodes = () => {
+                const nodes = {};
+
+                Array.prototype.slice.call(document.querySelectorAll(".node")).forEach(node => {
+                    const matrix = node.transform.baseVal.getItem(0).matrix;
+                    const box    = node.querySelector(".outer").getBoundingClientRect();
+
+                    nodes[node.getAttribute("data-connection-id")] = {
+                        x: matrix.e,
+                        y: matrix.f,
+                        left: box.left,
+                        top: box.top,
+                        right: box.right,
+                        bottom: box.bottom
+                    };
+                });
+
+                return nodes;
+            };
+
+            // Center the view on the “bc” step, so the new step can't go right there
+            const svg    = wf.svgRoot.getBoundingClientRect();
+            const matrix = wf.workflow.transform.baseVal.getItem(0).matrix;
+
+            matrix.e = svg.width / 2 - 200 * wf.scale;
+            matrix.f = svg.height / 2;
+
+            const before = readNodes();
+            const step   = wf.model.addStepFromProcess({
+                class: "CommandLineTool",
+                cwlVersion: "v1.0",
+                baseCommand: ["echo"],
+                inputs: [{id: "x", type: "string"}],
+                outputs: []
+            });
+
+            return {
+                before,
+                after: readNodes(),
+                created: step.connectionId,
+                stored: {x: step.customProps["sbg:x"], y: step.customProps["sbg:y"]}
+            };
+        }) as any;
+
+        const created = result.after[result.created];
+
+        expect(result.before[result.created]).toBeUndefined();
+        expect(result.stored).toEqual({x: created.x, y: created.y});
+        expect(Math.sqrt(Math.pow(created.x - 200, 2) + Math.pow(created.y, 2))).toBeLessThan(250);
+
+        expectOthersToStay(result.before, result.after, result.created);
+        expectNoOverlaps(result.after, result.created);
+    });
+
+    it("puts a node next to the node it connects to, in free space", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf, NodePlacement} = window as any;
+            const readNodes           = () => {
+                const nodes = {};
+
+                Array.prototype.slice.call(document.querySelectorAll(".node")).forEach(node => {
+                    const matrix = node.transform.baseVal.getItem(0).matrix;
+                    const box    = node.querySelector(".outer").getBoundingClientRect();
+
+                    nodes[node.getAttribute("data-connection-id")] = {
+                        x: matrix.e,
+                        y: matrix.f,
+                        left: box.left,
+                        top: box.top,
+                        right: box.right,
+                        bottom: box.bottom
+                    };
+                });
+
+                return nodes;
+            };
+
+            const before   = readNodes();
+            const position = NodePlacement.place(wf, "c");
+
+            return {before, after: readNodes(), position};
+        }) as any;
+
+        const placed    = result.after["c"];
+        const neighbour = result.after["out/ab/ab"];
+
+        expect(result.position).toEqual({x: placed.x, y: placed.y});
+        expect(placed.left).toBeGreaterThan(neighbour.right);
+        expect(placed.y).toBeCloseTo(neighbour.y, 3);
+
+        expectOthersToStay(result.before, result.after, "c");
+        expectNoOverlaps(result.after, "c");
+    });
+});
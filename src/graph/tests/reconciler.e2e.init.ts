@@ -0,0 +1,13 @@
+import "../../assets/styles/theme";
+import {WorkflowFactory} from "cwlts/models";
+import {Workflow}        from "../../";
+import {GraphReconciler} from "../reconciler";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: document.getElementById("svg") as any
+});
+
+Object.assign(window, {wf, GraphReconciler});
@@ -0,0 +1,132 @@
+import {browser}       from "protractor";
+import {serveCompiled} from "../../utils/test-utils";
+
+describe("Reconciler", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("keeps classes added by plugins and focus through redraws", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf} = window as any;
+            const node = document.querySelector(`.node[data-connection-id="bc"]`) as any;
+
+            node.classList.add("marked-by-plugin");
+            node.focus();
+
+            wf.draw();
+            wf.redrawEdges();
+
+            const current = document.querySelector(`.node[data-connection-id="bc"]`);
+
+            return {
+                same: current === node,
+                marked: current.classList.contains("marked-by-plugin"),
+                focused: document.activeElement === node
+            };
+        }) as any;
+
+        expect(result).toEqual({same: true, marked: true, focused: true});
+    });
+
+    it("replaces the content of only the node that changed", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf} = window as any;
+            const ids  = ["out/a/a", "out/ab/ab", "bc", "c"];
+
+            const find  = id => document.querySelector(`.node[data-connection-id="${id}"]`);
+            const nodes = ids.map(find);
+            const cores = nodes.map(node => node.querySelector(".core"));
+
+            wf.model.findById("c").label = "Renamed";
+            wf.draw();
+
+            return {
+                sameNodes: ids.map((id, i) => find(id) === nodes[i]),
+                sameCores: ids.map((id, i) => find(id).querySelector(".core") === cores[i]),
+                title: find("c").querySelector(".title").textContent
+            };
+        }) as any;
+
+        expect(result.sameNodes).toEqual([true, true, true, true]);
+        expect(result.sameCores).toEqual([true, true, true, false]);
+        expect(result.title).toBe("Renamed");
+    });
+
+    it("removes attributes that the template no longer gives, but not the ones plugins set", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {GraphReconciler} = window as any;
+
+            const container  = document.createElementNS("http://www.w3.org/2000/svg", "g");
+            const reconciler = new GraphReconciler(container);
+
+            document.getElementById("svg").appendChild(container);
+
+            reconciler.reconcileNodes(new Map([["n", `<g class="node" data-connection-id="n" data-stale="yes"></g>`]]));
+
+            const node = container.querySelector(".node");
+            node.setAttribute("data-plugin", "kept");
+
+            reconciler.reconcileNodes(new Map([["n", `<g class="node" data-connection-id="n"></g>`]]));
+
+            return {
+                same: container.querySelector(".node") === node,
+                stale: node.hasAttribute("data-stale"),
+                plugin: node.getAttribute("data-plugin")
+            };
+        }) as any;
+
+        expect(result).toEqual({same: true, stale: false, plugin: "kept"});
+    });
+
+    it("tells apart edges whose endpoint IDs concatenate to the same string", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf, GraphReconciler} = window as any;
+
+            const find = (source, destination) => document.querySelector(
+                `.edge[data-source-connection="${source}"][data-destination-connection="${destination}"]`
+            );
+            const first  = find("out/a/a", "in/bc/x");
+            const second = find("out/ab/ab", "in/c/x");
+            const path   = (edge: Element) => edge.querySelector(".sub-edge").getAttribute("d");
+
+            const firstPath  = path(first);
+            const secondPath = path(second);
+
+            // Moving the destination of the second edge should re-path only that edge
+            const c = wf.model.findById("c");
+            c.customProps["sbg:y"] = 300;
+            wf.draw();
+
+            return {
+                distinctKeys: GraphReconciler.edgeKey("a", "bc") !== GraphReconciler.edgeKey("ab", "c"),
+                edgeCount: document.querySelectorAll(".edge").length,
+                sameFirst: find("out/a/a", "in/bc/x") === first,
+                sameSecond: find("out/ab/ab", "in/c/x") === second,
+                firstPathKept: path(first) === firstPath,
+                secondRepathed: path(second) !== secondPath
+            };
+        }) as any;
+
+        expect(result).toEqual({
+            distinctKeys: true,
+            edgeCount: 2,
+            sameFirst: true,
+            sameSecond: true,
+            firstPathKept: true,
+            secondRepathed: true
+        });
+    });
+});
@@ -0,0 +1,49 @@
+import {WorkflowFactory, WorkflowModel} from "cwlts/models";
+import {SvgRenderer}                    from "../svg-renderer";
+
+describe("SVG renderer", () => {
+
+    function loadSample(name: string): WorkflowModel {
+        return WorkflowFactory.from(require(`../../../cwl-samples/${name}.json`));
+    }
+
+    function count(markup: string, pattern: RegExp): number {
+        return (markup.match(pattern) || []).length;
+    }
+
+    for (const sample of ["fastqc", "bcbio", "rna-seq-alignment"]) {
+
+        it(`draws every node and edge of ${sample}`, () => {
+            const model  = loadSample(sample);
+            const markup = new SvgRenderer(model).render();
+
+            const nodes = [...model.steps, ...model.inputs, ...model.outputs].filter(node => node.isVisible).length;
+            const edges = model.connections.filter(edge => {
+                return edge.isVisible && edge.source.type !== "Step" && edge.destination.type !== "Step";
+            }).length;
+
+            expect(count(markup, /<g tabindex="-1" class="node /g)).toBe(nodes);
+            expect(count(markup, /<g tabindex="-1" class="edge /g)).toBe(edges);
+        });
+    }
+
+    it("fits the view box around the graph with the given padding", () => {
+        const renderer = new SvgRenderer(loadSample("fastqc"), {padding: 20});
+        const bounds   = renderer.layout.getBounds();
+        const markup   = renderer.render();
+
+        expect(markup).toContain(`viewBox="${bounds.x - 10} ${bounds.y - 10} ${bounds.width + 20} ${bounds.height + 20}"`);
+    });
+
+    it("embeds the given styles into the document", () => {
+        const markup = new SvgRenderer(loadSample("fastqc"), {styles: ".node { fill: red; }"}).render();
+
+        expect(markup).toContain("<style>.node { fill: red; }</style>");
+    });
+
+    it("marks the document with the orientation of the graph", () => {
+        const markup = new SvgRenderer(loadSample("fastqc"), {orientation: "TB"}).render();
+
+        expect(markup).toMatch(/^<svg [^>]*class="cwl-workflow orientation-tb"/);
+    });
+});
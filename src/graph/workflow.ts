@@ -1,24 +1,28 @@
-import {WorkflowStepInputModel}       from "cwlts/models/generic";
-import {StepModel}                    from "cwlts/models/generic/StepModel";
-import {WorkflowInputParameterModel}  from "cwlts/models/generic/WorkflowInputParameterModel";
-import {WorkflowModel}                from "cwlts/models/generic/WorkflowModel";
-import {WorkflowOutputParameterModel} from "cwlts/models/generic/WorkflowOutputParameterModel";
-import {SVGPlugin}                    from "../plugins/plugin";
-import {DomEvents}                    from "../utils/dom-events";
-import {EventHub}                     from "../utils/event-hub";
-import {Connectable}                  from "./connectable";
-import {Edge as GraphEdge}            from "./edge";
-import {GraphNode}                    from "./graph-node";
-import {StepNode}                     from "./step-node";
-import {TemplateParser}               from "./template-parser";
-import {WorkflowStepOutputModel}      from "cwlts/models";
+import {WorkflowStepInputModel}                         from "cwlts/models/generic";
+import {StepModel}                                      from "cwlts/models/generic/StepModel";
+import {WorkflowInputParameterModel}                    from "cwlts/models/generic/WorkflowInputParameterModel";
+import {WorkflowModel}                                  from "cwlts/models/generic/WorkflowModel";
+import {WorkflowOutputParameterModel}                   from "cwlts/models/generic/WorkflowOutputParameterModel";
+import {BeforeChangeEvent, SVGPlugin, WorkflowEventMap} from "../plugins/plugin";
+import {DomEvents}                                      from "../utils/dom-events";
+import {EventHandler, EventHub}                         from "../utils/event-hub";
+import {Connectable}                                    from "./connectable";
+import {Edge as GraphEdge}                              from "./edge";
+import {BezierEdgeRouter, EdgeObstacle, EdgeRouter}     from "./edge-router";
+import {GraphNode}                                      from "./graph-node";
+import {GraphOrientation, Orientation}                  from "./orientation";
+import {NodePlacement}                                  from "./placement";
+import {GraphReconciler}                                from "./reconciler";
+import {StepNode}                                       from "./step-node";
+import {TemplateParser}                                 from "./template-parser";
+import {WorkflowStepOutputModel}                        from "cwlts/models";
 
 /**
  * @FIXME validation states of old and newly created edges
  */
 export class Workflow {
 
-    readonly eventHub: EventHub;
+    readonly eventHub: EventHub<WorkflowEventMap>;
     readonly svgID = this.makeID();
 
     minScale = 0.2;
@@ -30,13 +34,23 @@ export class Workflow {
     model: WorkflowModel;
     editingEnabled = true;
 
+    /** Shapes edges, can be replaced through {@link setEdgeRouter} */
+    edgeRouter: EdgeRouter;
+
+    /** Direction in which the graph flows, can be changed through {@link setOrientation} */
+    orientation: Orientation = "LR";
+
     /** Scale of labels, they are different than scale of other elements in the workflow */
     labelScale = 1;
 
     private workflowBoundingClientRect;
+    private reconciler: GraphReconciler;
     private plugins: SVGPlugin[]  = [];
     private disposers: Function[] = [];
 
+    /** Detaches listeners from the currently drawn model, replaced each time a different model gets drawn */
+    private disposeModelListeners: Function;
+
     private pendingFirstDraw = true;
 
     /** Stored in order to ensure that once destroyed graph cannot be reused again */
@@ -46,26 +60,30 @@ export class Workflow {
         svgRoot: SVGSVGElement,
         model: WorkflowModel,
         plugins?: SVGPlugin[],
-        editingEnabled?: boolean
+        editingEnabled?: boolean,
+        edgeRouter?: EdgeRouter,
+        orientation?: Orientation
     }) {
         this.svgRoot        = parameters.svgRoot;
         this.plugins        = parameters.plugins || [];
         this.domEvents      = new DomEvents(this.svgRoot as any);
         this.model          = parameters.model;
         this.editingEnabled = parameters.editingEnabled !== false; // default to true if undefined
+        this.edgeRouter     = parameters.edgeRouter || new BezierEdgeRouter();
+        this.orientation    = parameters.orientation || "LR";
 
         this.svgRoot.classList.add(this.svgID);
+        this.svgRoot.classList.add(GraphOrientation.getCSSClass(this.orientation));
 
         this.svgRoot.innerHTML = `
             <rect x="0" y="0" width="100%" height="100%" class="pan-handle" transform="matrix(1,0,0,1,0,0)"></rect>
             <g class="workflow" transform="matrix(1,0,0,1,0,0)"></g>
         `;
 
-        this.workflow = this.svgRoot.querySelector(".workflow") as any;
-
-        this.invokePlugins("registerWorkflow", this);
+        this.workflow   = this.svgRoot.querySelector(".workflow") as any;
+        this.reconciler = new GraphReconciler(this.workflow);
 
-        this.eventHub = new EventHub([
+        this.eventHub = new EventHub<WorkflowEventMap>([
             "connection.create",
             "app.create.step",
             "app.create.input",
@@ -76,6 +94,8 @@ export class Workflow {
             "selectionChange"
         ]);
 
+        this.invokePlugins("registerWorkflow", this);
+
         this.hookPlugins();
         this.draw(parameters.model);
 
@@ -104,30 +124,17 @@ export class Workflow {
         return element.getBoundingClientRect().width !== 0;
     }
 
+    /**
+     * @deprecated Edges are shaped by {@link edgeRouter}, this always makes a bezier curve
+     */
     static makeConnectionPath(x1, y1, x2, y2, forceDirection: "right" | "left" | string = "right"): string {
-
-        if (!forceDirection) {
-            return `M ${x1} ${y1} C ${(x1 + x2) / 2} ${y1} ${(x1 + x2) / 2} ${y2} ${x2} ${y2}`;
-        } else if (forceDirection === "right") {
-            const outDir = x1 + Math.abs(x1 - x2) / 2;
-            const inDir  = x2 - Math.abs(x1 - x2) / 2;
-
-            return `M ${x1} ${y1} C ${outDir} ${y1} ${inDir} ${y2} ${x2} ${y2}`;
-        } else if (forceDirection === "left") {
-            const outDir = x1 - Math.abs(x1 - x2) / 2;
-            const inDir  = x2 + Math.abs(x1 - x2) / 2;
-
-            return `M ${x1} ${y1} C ${outDir} ${y1} ${inDir} ${y2} ${x2} ${y2}`;
-        }
+        return new BezierEdgeRouter().makePath(x1, y1, x2, y2, forceDirection);
     }
 
     draw(model: WorkflowModel = this.model) {
 
         this.assertNotDestroyed("draw");
 
-        // We will need to restore the transformations when we redraw the model, so save the current state
-        const oldTransform = this.workflow.getAttribute("transform");
-
         const modelChanged = this.model !== model;
 
         if (modelChanged || this.pendingFirstDraw) {
@@ -149,7 +156,11 @@ export class Workflow {
             const stepOutPortCreateDisposer = this.model.on("step.outPort.create", this.onOutputPortCreate.bind(this));
             const stepOutPortRemoveDisposer = this.model.on("step.outPort.remove", this.onOutputPortRemove.bind(this));
 
-            this.disposers.push(() => {
+            if (typeof this.disposeModelListeners === "function") {
+                this.disposeModelListeners();
+            }
+
+            this.disposeModelListeners = () => {
                 stepChangeDisposer.dispose();
                 stepCreateDisposer.dispose();
                 stepRemoveDisposer.dispose();
@@ -163,12 +174,13 @@ export class Workflow {
                 connectionRemoveDisposer.dispose();
                 stepOutPortCreateDisposer.dispose();
                 stepOutPortRemoveDisposer.dispose();
-            });
+            };
 
             this.invokePlugins("afterModelChange");
         }
 
-        this.clearCanvas();
+        // Listeners are attached anew on each render, plugins that use them will do the same after rendering
+        this.domEvents.detachAll();
 
         const nodes = [
             ...this.model.steps,
@@ -176,42 +188,22 @@ export class Workflow {
             ...this.model.outputs
         ].filter(n => n.isVisible);
 
-        /**
-         * If there is a missing sbg:x or sbg:y property on any node model,
-         * graph should be arranged to avoid random placement.
-         */
-        let arrangeNecessary = false;
-
-        let nodeTemplate = "";
+        const nodeTemplates = new Map<string, string>();
 
         for (let node of nodes) {
-            const patched  = GraphNode.patchModelPorts(node);
-            const missingX = isNaN(parseInt(patched.customProps["sbg:x"]));
-            const missingY = isNaN(parseInt(patched.customProps["sbg:y"]));
-
-            if (missingX || missingY) {
-                arrangeNecessary = true;
-            }
-
-            nodeTemplate += GraphNode.makeTemplate(patched);
-
+            const patched = GraphNode.patchModelPorts(node);
+            nodeTemplates.set(patched.connectionId, GraphNode.makeTemplate(patched, 1, this.orientation));
         }
 
-        this.workflow.innerHTML += nodeTemplate;
+        this.reconciler.reconcileNodes(nodeTemplates);
 
         this.redrawEdges();
 
-        Array.from(this.workflow.querySelectorAll(".node")).forEach(e => {
-            this.workflow.appendChild(e);
-        });
-
         this.addEventListeners();
 
-        this.workflow.setAttribute("transform", oldTransform);
-
+        // Newly rendered labels need to be adjusted to the current scale
         this.scaleAtPoint(this.scale);
 
-
         this.invokePlugins("afterRender");
     }
 
@@ -234,11 +226,15 @@ export class Workflow {
         return this.plugins.find(p => p instanceof plugin) as T;
     }
 
-    on(event: string, handler) {
-        this.eventHub.on(event, handler);
+    /**
+     * Subscribes to a workflow event
+     * @returns a function that removes the subscription
+     */
+    on<E extends keyof WorkflowEventMap>(event: E, handler: EventHandler<WorkflowEventMap[E]>): () => void {
+        return this.eventHub.on(event, handler);
     }
 
-    off(event, handler) {
+    off<E extends keyof WorkflowEventMap>(event: E, handler: EventHandler<WorkflowEventMap[E]>): void {
         this.eventHub.off(event, handler);
     }
 
@@ -286,28 +282,57 @@ export class Workflow {
         matrix.f += moveY;
     }
 
+    /**
+     * Brings edges in line with the model, patching only the ones that changed
+     */
     redrawEdges() {
+        if (this.edgeRouter.setObstacles) {
+            this.edgeRouter.setObstacles(Array.from(this.getNodeObstacles().values()));
+        }
 
-        const highlightedEdges = new Set();
+        const direction = GraphOrientation.getEdgeDirection(this.orientation);
 
-        Array.from(this.workflow.querySelectorAll(".edge")).forEach((el) => {
-            if (el.classList.contains("highlighted")) {
-                const edgeID = el.attributes["data-source-connection"].value + el.attributes["data-destination-connection"].value;
-                highlightedEdges.add(edgeID);
-            }
-            el.remove();
-        });
+        this.reconciler.reconcileEdges(this.model.connections, this.edgeRouter, direction);
+    }
 
+    /**
+     * Finds the circles of all nodes on the canvas, for routers that route edges around them
+     */
+    getNodeObstacles(): Map<SVGGElement, EdgeObstacle> {
+        const obstacles = new Map<SVGGElement, EdgeObstacle>();
 
-        const edgesTpl = this.model.connections
-            .map(c => {
-                const edgeId     = c.source.id + c.destination.id;
-                const edgeStates = highlightedEdges.has(edgeId) ? "highlighted" : "";
-                return GraphEdge.makeTemplate(c, this.workflow, edgeStates);
-            })
-            .reduce((acc, tpl) => acc + tpl, "");
+        for (const node of Array.from(this.workflow.querySelectorAll(".node")) as SVGGElement[]) {
+            const matrix = node.transform.baseVal.getItem(0).matrix;
+            const outer  = node.querySelector(".outer") as SVGCircleElement;
+
+            obstacles.set(node, {
+                x: matrix.e,
+                y: matrix.f,
+                radius: outer ? outer.r.baseVal.value : GraphNode.radius
+            });
+        }
+
+        return obstacles;
+    }
 
-        this.workflow.innerHTML = edgesTpl + this.workflow.innerHTML;
+    /**
+     * Changes the way edges are shaped and reroutes all of them
+     */
+    setEdgeRouter(router: EdgeRouter): void {
+        this.edgeRouter = router;
+        this.redrawEdges();
+    }
+
+    /**
+     * Turns the graph to flow in another direction, moving ports and reshaping edges.
+     * Node positions are left as they are, arrange the graph to lay it out in the new direction.
+     */
+    setOrientation(orientation: Orientation): void {
+        this.svgRoot.classList.remove(GraphOrientation.getCSSClass(this.orientation));
+        this.svgRoot.classList.add(GraphOrientation.getCSSClass(orientation));
+
+        this.orientation = orientation;
+        this.draw();
     }
 
     /**
@@ -365,6 +390,7 @@ export class Workflow {
     destroy() {
 
         this.svgRoot.classList.remove(this.svgID);
+        this.svgRoot.classList.remove(GraphOrientation.getCSSClass(this.orientation));
 
         this.clearCanvas();
         this.eventHub.empty();
@@ -375,6 +401,10 @@ export class Workflow {
             dispose();
         }
 
+        if (typeof this.disposeModelListeners === "function") {
+            this.disposeModelListeners();
+        }
+
         this.isDestroyed = true;
     }
 
@@ -435,6 +465,7 @@ export class Workflow {
 
     private clearCanvas() {
         this.domEvents.detachAll();
+        this.reconciler.reset();
         this.workflow.innerHTML = "";
         this.workflow.setAttribute("transform", "matrix(1,0,0,1,0,0)");
         this.workflow.setAttribute("class", "workflow");
@@ -444,8 +475,15 @@ export class Workflow {
 
         this.plugins.forEach(plugin => {
 
-            plugin.registerOnBeforeChange(event => {
+            plugin.registerOnBeforeChange(change => {
+                const event = Object.assign({defaultPrevented: false}, change) as BeforeChangeEvent;
+                event.preventDefault = () => {
+                    event.defaultPrevented = true;
+                };
+
                 this.eventHub.emit("beforeChange", event);
+
+                return !event.defaultPrevented;
             });
 
             plugin.registerOnAfterChange(event => {
@@ -479,7 +517,13 @@ export class Workflow {
         const sourceID      = source.connectionId;
         const destinationID = destination.connectionId;
 
-        GraphEdge.spawnBetweenConnectionIDs(this.workflow, sourceID, destinationID);
+        GraphEdge.spawnBetweenConnectionIDs(
+            this.workflow,
+            sourceID,
+            destinationID,
+            this.edgeRouter,
+            GraphOrientation.getEdgeDirection(this.orientation)
+        );
 
     }
 
@@ -507,7 +551,7 @@ export class Workflow {
         }
 
         const patched       = GraphNode.patchModelPorts(input);
-        const graphTemplate = GraphNode.makeTemplate(patched, this.labelScale);
+        const graphTemplate = GraphNode.makeTemplate(patched, this.labelScale, this.orientation);
 
         const el = TemplateParser.parse(graphTemplate);
         this.workflow.appendChild(el);
@@ -524,7 +568,7 @@ export class Workflow {
         }
 
         const patched       = GraphNode.patchModelPorts(output);
-        const graphTemplate = GraphNode.makeTemplate(patched, this.labelScale);
+        const graphTemplate = GraphNode.makeTemplate(patched, this.labelScale, this.orientation);
 
         const el = TemplateParser.parse(graphTemplate);
         this.workflow.appendChild(el);
@@ -544,9 +588,14 @@ export class Workflow {
             delete step.run.customProps["sbg:y"];
         }
 
-        const template = GraphNode.makeTemplate(step, this.labelScale);
+        const template = GraphNode.makeTemplate(step, this.labelScale, this.orientation);
         const element  = TemplateParser.parse(template);
         this.workflow.appendChild(element);
+
+        // A step without coordinates would be drawn at the origin, on top of whatever is already there
+        if (!GraphNode.getModelPosition(step)) {
+            NodePlacement.place(this, step.connectionId);
+        }
     }
 
 
@@ -560,22 +609,22 @@ export class Workflow {
     private onInputPortShow(input: WorkflowStepInputModel) {
 
         const stepEl = this.svgRoot.querySelector(`.step[data-connection-id="${input.parentStep.connectionId}"]`) as SVGElement;
-        new StepNode(stepEl, input.parentStep).update();
+        new StepNode(stepEl, input.parentStep, this.orientation, this.edgeRouter).update();
     }
 
     private onInputPortHide(input: WorkflowStepInputModel) {
         const stepEl = this.svgRoot.querySelector(`.step[data-connection-id="${input.parentStep.connectionId}"]`) as SVGElement;
-        new StepNode(stepEl, input.parentStep).update();
+        new StepNode(stepEl, input.parentStep, this.orientation, this.edgeRouter).update();
     }
 
     private onOutputPortCreate(output: WorkflowStepOutputModel) {
         const stepEl = this.svgRoot.querySelector(`.step[data-connection-id="${output.parentStep.connectionId}"]`) as SVGElement;
-        new StepNode(stepEl, output.parentStep).update();
+        new StepNode(stepEl, output.parentStep, this.orientation, this.edgeRouter).update();
     }
 
     private onOutputPortRemove(output: WorkflowStepOutputModel) {
         const stepEl = this.svgRoot.querySelector(`.step[data-connection-id="${output.parentStep.connectionId}"]`) as SVGElement;
-        new StepNode(stepEl, output.parentStep).update();
+        new StepNode(stepEl, output.parentStep, this.orientation, this.edgeRouter).update();
     }
 
     /**
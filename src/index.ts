@@ -1,4 +1,7 @@
 export * from "./graph/workflow";
+export * from "./graph/edge-router";
+export * from "./graph/orientation";
+export * from "./graph/placement";
 export * from "./plugins/zoom/zoom";
 export * from "./plugins/arrange/arrange";
 export * from "./plugins/validate/validate";
@@ -7,4 +10,18 @@ export * from "./plugins/port-drag/port-drag";
 export * from "./plugins/selection/selection";
 export * from "./plugins/edge-hover/edge-hover";
 export * from "./plugins/deletion/deletion";
+export * from "./plugins/undo-redo/undo-redo";
+export * from "./plugins/clipboard/clipboard";
+export * from "./plugins/minimap/minimap";
+export * from "./plugins/keyboard-navigation/keyboard-navigation";
+export * from "./plugins/accessibility/accessibility";
+export * from "./plugins/search/search";
+export * from "./plugins/node-inspector/node-inspector";
+export * from "./plugins/align/align";
+export * from "./plugins/annotation/annotation";
 export * from "./utils/svg-dumper";
+export * from "./graph/svg-renderer";
+export * from "./layout/graph-layout";
+export * from "./layout/column-layout";
+export * from "./layout/layered-layout";
+export * from "./layout/subgraph-placement";
@@ -0,0 +1,321 @@
+import {GraphNode} from "../graph/graph-node";
+
+export type LayoutRect = { width: number, height: number };
+
+export type LayoutNode = {
+    inputs: string[],
+    outputs: string[],
+    connectionID: string,
+    rect: LayoutRect,
+    type: "step" | "input" | "output" | string
+};
+
+export type LayoutGraph = { [nodeID: string]: LayoutNode };
+
+export type NodePositionUpdates = { [connectionID: string]: { x: number, y: number } };
+
+/**
+ * Distributes connected nodes into columns by the longest path that leads to them,
+ * and lays out dangling nodes in rows underneath.
+ *
+ * Works only with node dimensions, so it can be fed either from a rendered graph or from estimates.
+ */
+export class ColumnLayout {
+
+    /**
+     * @param graph Nodes that have at least one connection, indexed by node ID
+     * @param danglingNodes Dimensions of nodes without connections, indexed by connection ID
+     */
+    static arrange(graph: LayoutGraph, danglingNodes: { [connectionID: string]: LayoutRect }): NodePositionUpdates {
+
+        // Create an array of columns, each containing a list of LayoutNodes
+        const columns = ColumnLayout.distributeNodesIntoColumns(graph);
+
+        // Get total area in which we will fit the graph, and per-column dimensions
+        const {distributionArea, columnDimensions} = ColumnLayout.calculateColumnSizes(columns);
+
+        // This will be the vertical middle around which the graph should be centered
+        let verticalBaseline = distributionArea.height / 2;
+
+        let xOffset    = 0;
+        let maxYOffset = 0;
+
+        // Here we will store positions for each node that is to be updated.
+        const nodePositionUpdates = {} as NodePositionUpdates;
+
+        columns.forEach((column, index) => {
+            const colSize = columnDimensions[index];
+            let yOffset   = verticalBaseline - (colSize.height / 2) - column[0].rect.height / 2;
+
+            column.forEach(node => {
+                yOffset += node.rect.height / 2;
+
+                const position = {x: xOffset, y: yOffset};
+
+                yOffset += node.rect.height / 2;
+
+                if (yOffset > maxYOffset) {
+                    maxYOffset = yOffset;
+                }
+
+                nodePositionUpdates[node.connectionID] = position;
+            });
+
+            xOffset += colSize.width;
+        });
+
+        ColumnLayout.arrangeDanglingNodes(danglingNodes, distributionArea.width, maxYOffset, nodePositionUpdates);
+
+        return nodePositionUpdates;
+    }
+
+    /**
+     * Lays out nodes without connections in rows, inputs first, then steps, then outputs
+     * @param danglingNodes Dimensions of nodes without connections, indexed by connection ID
+     * @param areaWidth Width of the connected part of the graph, rows wrap once they get this wide
+     * @param top Vertical position below which the rows start
+     * @param nodePositionUpdates Positions of nodes that have already been laid out, dangling node positions get added to it
+     */
+    static arrangeDanglingNodes(danglingNodes: { [connectionID: string]: LayoutRect },
+                                areaWidth: number,
+                                top: number,
+                                nodePositionUpdates: NodePositionUpdates): void {
+
+        const danglingNodeKeys = ColumnLayout.sortDanglingNodeIDs(Object.keys(danglingNodes));
+
+        const danglingNodeMarginOffset = 30;
+        const danglingNodeSideLength   = GraphNode.radius * 5;
+
+        let maxNodeHeightInRow = 0;
+        let row                = 0;
+        let indexWidthMap      = new Map<number, number>();
+        let rowMaxHeightMap    = new Map<number, number>();
+
+        let xOffset = 0;
+
+        let danglingRowAreaWidth = Math.max(areaWidth, danglingNodeSideLength * 3);
+        danglingNodeKeys.forEach((connectionID, index) => {
+            const rect = danglingNodes[connectionID];
+            indexWidthMap.set(index, rect.width);
+
+            if (xOffset === 0) {
+                xOffset -= rect.width / 2;
+            }
+            if (rect.height > maxNodeHeightInRow) {
+                maxNodeHeightInRow = rect.height;
+            }
+            xOffset += rect.width + danglingNodeMarginOffset + Math.max(150 - rect.width, 0);
+
+            if (xOffset >= danglingRowAreaWidth && index < danglingNodeKeys.length - 1) {
+                rowMaxHeightMap.set(row++, maxNodeHeightInRow);
+                maxNodeHeightInRow = 0;
+                xOffset            = 0;
+            }
+        });
+
+        rowMaxHeightMap.set(row, maxNodeHeightInRow);
+        let colYOffset = top;
+        xOffset        = 0;
+        row            = 0;
+
+        danglingNodeKeys.forEach((connectionID, index) => {
+            const width     = indexWidthMap.get(index);
+            const rowHeight = rowMaxHeightMap.get(row);
+            let left        = xOffset + width / 2;
+            let top         = colYOffset
+                + danglingNodeMarginOffset
+                + Math.ceil(rowHeight / 2)
+                + ((xOffset === 0 ? 0 : left) / danglingRowAreaWidth) * danglingNodeSideLength;
+
+            if (xOffset === 0) {
+                left -= width / 2;
+                xOffset -= width / 2;
+            }
+            xOffset += width + danglingNodeMarginOffset + Math.max(150 - width, 0);
+
+            nodePositionUpdates[connectionID] = {x: left, y: top};
+
+            if (xOffset >= danglingRowAreaWidth) {
+                colYOffset += Math.ceil(rowHeight) + danglingNodeMarginOffset;
+                xOffset            = 0;
+                maxNodeHeightInRow = 0;
+                row++
+            }
+        });
+    }
+
+    /**
+     * Orders dangling nodes so that inputs come first, then steps, then outputs
+     */
+    private static sortDanglingNodeIDs(connectionIDs: string[]): string[] {
+        return connectionIDs.sort((a, b) => {
+
+            const aIsInput  = a.startsWith("out/");
+            const aIsOutput = a.startsWith("in/");
+            const bIsInput  = b.startsWith("out/");
+            const bIsOutput = b.startsWith("in/");
+
+            const lowerA = a.toLowerCase();
+            const lowerB = b.toLowerCase();
+
+            if (aIsOutput) {
+
+                if (bIsOutput) {
+                    return lowerB.localeCompare(lowerA);
+                }
+                else {
+                    return 1;
+                }
+            } else if (aIsInput) {
+                if (bIsOutput) {
+                    return -1;
+                }
+                if (bIsInput) {
+                    return lowerB.localeCompare(lowerA);
+                }
+                else {
+                    return 1;
+                }
+            } else {
+                if (!bIsOutput && !bIsInput) {
+                    return lowerB.localeCompare(lowerA);
+                }
+                else {
+                    return -1;
+                }
+            }
+        });
+    }
+
+    /**
+     * Calculates column dimensions and total graph area
+     * @param {LayoutNode[][]} columns
+     */
+    private static calculateColumnSizes(columns: LayoutNode[][]): {
+        columnDimensions: {
+            width: number,
+            height: number
+        }[],
+        distributionArea: {
+            width: number,
+            height: number
+        }
+    } {
+        const distributionArea = {width: 0, height: 0};
+        const columnDimensions = [];
+
+        for (let i = 1; i < columns.length; i++) {
+
+            let width  = 0;
+            let height = 0;
+
+            for (let j = 0; j < columns[i].length; j++) {
+                const entry = columns[i][j];
+
+                height += entry.rect.height;
+
+                if (width < entry.rect.width) {
+                    width = entry.rect.width;
+                }
+
+            }
+
+            columnDimensions[i] = {height, width};
+
+            distributionArea.width += width;
+            if (height > distributionArea.height) {
+                distributionArea.height = height;
+            }
+
+        }
+
+        return {
+            columnDimensions,
+            distributionArea
+        };
+
+    }
+
+    /**
+     * Maps node's connectionID to a 1-indexed column number
+     */
+    private static distributeNodesIntoColumns(graph: LayoutGraph): Array<LayoutNode[]> {
+        const idToZoneMap   = {};
+        const sortedNodeIDs = Object.keys(graph).sort((a, b) => b.localeCompare(a));
+        const zones         = [];
+
+        for (let i = 0; i < sortedNodeIDs.length; i++) {
+            const nodeID = sortedNodeIDs[i];
+            const node   = graph[nodeID];
+
+            // For outputs and steps, we calculate the zone as a longest path you can take to them
+            if (node.type !== "input") {
+                idToZoneMap[nodeID] = ColumnLayout.traceLongestNodePathLength(node, graph);
+            } else {
+                //
+                // Longest trace methods would put all inputs in the first column,
+                // but we want it just behind the leftmost step that it is connected to
+                // So instead of:
+                //
+                // (input)<----------------->(step)---
+                // (input)<---------->(step)----------
+                //
+                // It should be:
+                //
+                // ---------------(input)<--->(step)---
+                // --------(input)<-->(step)-----------
+                //
+
+                let closestNodeZone = Infinity;
+                for (let i = 0; i < node.outputs.length; i++) {
+                    const successorNodeZone = idToZoneMap[node.outputs[i]];
+
+                    if (successorNodeZone < closestNodeZone) {
+                        closestNodeZone = successorNodeZone;
+                    }
+                }
+                if (closestNodeZone === Infinity) {
+                    idToZoneMap[nodeID] = 1;
+                } else {
+                    idToZoneMap[nodeID] = closestNodeZone - 1;
+                }
+
+            }
+
+            const zone = idToZoneMap[nodeID];
+            zones[zone] || (zones[zone] = []);
+
+            zones[zone].push(graph[nodeID]);
+        }
+
+        return zones;
+
+    }
+
+    /**
+     * Finds length of the longest possible path from the graph root to a node.
+     * Lengths are 1-indexed. When a node has no predecessors, it will have length of 1.
+     */
+    private static traceLongestNodePathLength(node: LayoutNode, nodeGraph: LayoutGraph, visited = new Set<LayoutNode>()): number {
+
+        visited.add(node);
+
+        if (node.inputs.length === 0) {
+            return 1;
+        }
+
+        const inputPathLengths = [];
+
+        for (let i = 0; i < node.inputs.length; i++) {
+            const el = nodeGraph[node.inputs[i]];
+
+            if (visited.has(el)) {
+                continue;
+            }
+
+            inputPathLengths.push(ColumnLayout.traceLongestNodePathLength(el, nodeGraph, visited));
+        }
+
+        return Math.max(...inputPathLengths) + 1;
+    }
+}
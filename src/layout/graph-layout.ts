@@ -0,0 +1,340 @@
+import {Edge as ModelEdge, WorkflowInputParameterModel, WorkflowModel, WorkflowOutputParameterModel} from "cwlts/models";
+import {GraphNode, NodeDataModel, NodePosition}                                                   from "../graph/graph-node";
+import {BezierEdgeRouter, EdgeRouter}                                                             from "../graph/edge-router";
+import {ColumnLayout, LayoutGraph, LayoutRect, NodePositionUpdates}                               from "./column-layout";
+import {LayeredLayout}                                                                            from "./layered-layout";
+import {GraphOrientation, Orientation}                                                            from "../graph/orientation";
+
+export type PortLayout = {
+    id: string,
+    connectionID: string,
+    label: string,
+    type: "input" | "output",
+
+    /** Position relative to the center of the node */
+    offset: NodePosition
+};
+
+export type NodeLayout = {
+    id: string,
+    connectionID: string,
+    label: string,
+    type: "step" | "input" | "output",
+    model: NodeDataModel,
+    radius: number,
+    position: NodePosition,
+    ports: PortLayout[],
+
+    /** Tells whether the model had both coordinates stored when the layout was made */
+    hasCoordinates: boolean
+};
+
+export type EdgeLayout = {
+    edge: ModelEdge,
+    path: string
+};
+
+export type LayoutBounds = { x: number, y: number, width: number, height: number };
+
+/**
+ * “columns” puts nodes into columns by the longest path that leads to them,
+ * “layered” also orders nodes within columns so that edges cross as little as possible
+ */
+export type ArrangeLayout = "columns" | "layered";
+
+/**
+ * Geometry of a workflow graph calculated from the model alone.
+ * Mirrors what {@link GraphNode.makeTemplate} and {@link Edge.makeTemplate} render,
+ * but does not need a DOM, so it can be used outside of the browser.
+ */
+export class GraphLayout {
+
+    /** Average width of a character in node titles, used to estimate label dimensions */
+    static titleCharWidth = 7;
+
+    /** Average width of a character in port labels, which are rendered in a smaller font */
+    static portLabelCharWidth = 6.3;
+
+    /** Height of a line of text */
+    static lineHeight = 14;
+
+    /** Vertical distance between the center of a node and the baseline of its title */
+    static titleOffset = 30;
+
+    /** Horizontal distance between the center of a node and the start of its title, in vertical orientations */
+    static sideTitleOffset = 15;
+
+    /** Horizontal distance between a port and its label */
+    static portLabelOffset = 10;
+
+    private nodes = new Map<string, NodeLayout>();
+
+    private ports = new Map<string, { node: NodeLayout, port: PortLayout }>();
+
+    /**
+     * @param orientation Direction in which the graph flows, same as {@link Workflow.orientation}
+     */
+    constructor(readonly model: WorkflowModel, readonly orientation: Orientation = "LR") {
+
+        const models = [
+            ...model.steps,
+            ...model.inputs,
+            ...model.outputs
+        ].filter(n => n.isVisible);
+
+        for (const nodeModel of models) {
+            const node = this.makeNodeLayout(GraphNode.patchModelPorts(nodeModel as NodeDataModel));
+
+            this.nodes.set(node.connectionID, node);
+
+            for (const port of node.ports) {
+                this.ports.set(port.connectionID, {node, port});
+            }
+        }
+    }
+
+    getNodes(): NodeLayout[] {
+        return Array.from(this.nodes.values());
+    }
+
+    getNode(connectionID: string): NodeLayout | undefined {
+        return this.nodes.get(connectionID);
+    }
+
+    /**
+     * Tells whether all visible nodes have their coordinates stored on the model
+     */
+    hasCoordinates(): boolean {
+        return this.getNodes().every(node => node.hasCoordinates);
+    }
+
+    setNodePosition(connectionID: string, position: NodePosition): void {
+        const node = this.nodes.get(connectionID);
+
+        if (node) {
+            node.position = {x: position.x, y: position.y};
+        }
+    }
+
+    /**
+     * Position of a port on the canvas
+     */
+    getPortPosition(portConnectionID: string): NodePosition | undefined {
+        const entry = this.ports.get(portConnectionID);
+
+        if (!entry) {
+            return;
+        }
+
+        return {
+            x: entry.node.position.x + entry.port.offset.x,
+            y: entry.node.position.y + entry.port.offset.y
+        };
+    }
+
+    /**
+     * Edges that would be drawn on the graph, along with their paths
+     */
+    getEdges(router: EdgeRouter = new BezierEdgeRouter()): EdgeLayout[] {
+
+        const edges     = [] as EdgeLayout[];
+        const direction = GraphOrientation.getEdgeDirection(this.orientation);
+
+        if (router.setObstacles) {
+            router.setObstacles(this.getNodes().map(node => ({...node.position, radius: node.radius})));
+        }
+
+        for (const edge of this.model.connections) {
+
+            if (!edge.isVisible || edge.source.type === "Step" || edge.destination.type === "Step") {
+                continue;
+            }
+
+            const source      = this.getPortPosition(edge.source.id);
+            const destination = this.getPortPosition(edge.destination.id);
+
+            if (!source || !destination) {
+                continue;
+            }
+
+            edges.push({
+                edge,
+                path: router.makePath(source.x, source.y, destination.x, destination.y, direction)
+            });
+        }
+
+        return edges;
+    }
+
+    /**
+     * Estimates the dimensions of a node with its title and port labels,
+     * as {@link Element.getBoundingClientRect} would measure them on an unscaled graph.
+     */
+    getNodeRect(connectionID: string): LayoutRect & { left: number, top: number } {
+        const node = this.nodes.get(connectionID);
+
+        const titleWidth = node.label.length * GraphLayout.titleCharWidth;
+        const isVertical = GraphOrientation.isVertical(this.orientation);
+
+        let left, right, top, bottom;
+
+        if (isVertical) {
+            left   = -node.radius;
+            right  = Math.max(node.radius, GraphLayout.sideTitleOffset + titleWidth);
+            top    = -Math.max(node.radius, GraphLayout.lineHeight / 2);
+            bottom = Math.max(node.radius, GraphLayout.lineHeight / 2);
+        } else {
+            left   = -Math.max(node.radius, titleWidth / 2);
+            right  = Math.max(node.radius, titleWidth / 2);
+            top    = -node.radius;
+            bottom = node.radius + GraphLayout.titleOffset + GraphLayout.lineHeight / 4;
+        }
+
+        // Port labels point away from the node, sideways in horizontal orientations and upright in vertical ones
+        for (const port of node.ports) {
+            const labelWidth = port.label.length * GraphLayout.portLabelCharWidth + GraphLayout.portLabelOffset;
+            const offset     = isVertical ? port.offset.y : port.offset.x;
+
+            const start = offset < 0 ? offset - labelWidth : offset;
+            const end   = offset < 0 ? offset : offset + labelWidth;
+
+            if (isVertical) {
+                top    = Math.min(top, start);
+                bottom = Math.max(bottom, end);
+            } else {
+                left  = Math.min(left, start);
+                right = Math.max(right, end);
+            }
+        }
+
+        return {
+            left,
+            top,
+            width: right - left,
+            height: bottom - top
+        };
+    }
+
+    /**
+     * Area that all nodes occupy on the canvas
+     */
+    getBounds(): LayoutBounds {
+        const nodes = this.getNodes();
+
+        if (nodes.length === 0) {
+            return {x: 0, y: 0, width: 0, height: 0};
+        }
+
+        let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+
+        for (const node of nodes) {
+            const rect = this.getNodeRect(node.connectionID);
+
+            minX = Math.min(minX, node.position.x + rect.left);
+            minY = Math.min(minY, node.position.y + rect.top);
+            maxX = Math.max(maxX, node.position.x + rect.left + rect.width);
+            maxY = Math.max(maxY, node.position.y + rect.top + rect.height);
+        }
+
+        return {
+            x: minX,
+            y: minY,
+            width: maxX - minX,
+            height: maxY - minY
+        };
+    }
+
+    /**
+     * Distributes nodes the same way the {@link SVGArrangePlugin} does, using estimated node dimensions.
+     * Positions are applied to this layout, but not written to the model.
+     */
+    arrange(layout: ArrangeLayout = "columns"): NodePositionUpdates {
+
+        const graph         = {} as LayoutGraph;
+        const danglingNodes = {} as { [connectionID: string]: LayoutRect };
+
+        // Layouts flow from left to right, so dimensions are turned into that direction and positions are turned back
+        this.nodes.forEach(node => {
+            danglingNodes[node.connectionID] = {width: node.radius * 2, height: node.radius * 2};
+        });
+
+        for (const {edge} of this.getEdges()) {
+            const source      = this.ports.get(edge.source.id).node;
+            const destination = this.ports.get(edge.destination.id).node;
+
+            delete danglingNodes[source.connectionID];
+            delete danglingNodes[destination.connectionID];
+
+            for (const node of [source, destination]) {
+                graph[node.id] || (graph[node.id] = {
+                    inputs: [],
+                    outputs: [],
+                    type: node.type,
+                    connectionID: node.connectionID,
+                    rect: GraphOrientation.toLeftToRightRect(this.getNodeRect(node.connectionID), this.orientation)
+                });
+            }
+
+            graph[source.id].outputs.push(destination.id);
+            graph[destination.id].inputs.push(source.id);
+        }
+
+        const laidOut = layout === "layered"
+            ? LayeredLayout.arrange(graph, danglingNodes)
+            : ColumnLayout.arrange(graph, danglingNodes);
+
+        const updates = {} as NodePositionUpdates;
+
+        for (const connectionID in laidOut) {
+            updates[connectionID] = GraphOrientation.fromLeftToRight(laidOut[connectionID], this.orientation);
+            this.setNodePosition(connectionID, updates[connectionID]);
+        }
+
+        return updates;
+    }
+
+    private makeNodeLayout(model: NodeDataModel): NodeLayout {
+
+        const props = model.customProps || {};
+        const x     = parseInt(props["sbg:x"]);
+        const y     = parseInt(props["sbg:y"]);
+
+        const radius = GraphNode.getRadius(model as any);
+        const ports  = [] as PortLayout[];
+
+        for (const type of ["input", "output"] as Array<"input" | "output">) {
+            GraphNode.getVisiblePorts(model as any, type).forEach((port: any, index, arr) => {
+                ports.push({
+                    type,
+                    id: port.id,
+                    connectionID: port.connectionId,
+                    label: port.label || port.id,
+                    offset: GraphNode.getPortOffset(arr.length, index, radius, type, this.orientation)
+                });
+            });
+        }
+
+        let type: "step" | "input" | "output" = "step";
+        if (model instanceof WorkflowInputParameterModel) {
+            type = "input";
+        } else if (model instanceof WorkflowOutputParameterModel) {
+            type = "output";
+        }
+
+        return {
+            type,
+            model,
+            radius,
+            ports,
+            id: model.id,
+            connectionID: model.connectionId,
+            label: model.label || model.id,
+            hasCoordinates: !isNaN(x) && !isNaN(y),
+            position: {
+                // Same conversion that the node template does
+                x: ~~props["sbg:x"],
+                y: ~~props["sbg:y"]
+            }
+        };
+    }
+}
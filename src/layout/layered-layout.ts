@@ -0,0 +1,457 @@
+import {ColumnLayout, LayoutGraph, LayoutRect, NodePositionUpdates} from "./column-layout";
+
+/**
+ * Node of the layered graph, either one from the workflow or a dummy that carries an edge across a layer
+ */
+type LayerNode = {
+    id: string,
+    connectionID?: string,
+    rect: LayoutRect,
+    layer: number,
+    predecessors: LayerNode[],
+    successors: LayerNode[],
+    y: number
+};
+
+/**
+ * Lays out connected nodes the Sugiyama way, in layers that follow the direction of edges,
+ * ordered within each layer so that edges cross as little as possible, and dangling nodes in rows underneath.
+ *
+ * Edges that span more than one layer are carried through the layers in between by dummy nodes,
+ * so they take part in crossing reduction and get room of their own.
+ *
+ * Works only with node dimensions, so it can be fed either from a rendered graph or from estimates.
+ */
+export class LayeredLayout {
+
+    /** Horizontal space between the widest nodes of neighbouring layers */
+    static layerSpacing = 60;
+
+    /** Vertical space between neighbouring nodes of a layer */
+    static nodeSpacing = 20;
+
+    /** How many times to sweep through the layers while reducing crossings */
+    static orderingIterations = 24;
+
+    /** How many times to sweep through the layers while straightening edges */
+    static positioningIterations = 8;
+
+    /**
+     * @param graph Nodes that have at least one connection, indexed by node ID
+     * @param danglingNodes Dimensions of nodes without connections, indexed by connection ID
+     */
+    static arrange(graph: LayoutGraph, danglingNodes: { [connectionID: string]: LayoutRect }): NodePositionUpdates {
+
+        const nodes  = LayeredLayout.makeLayerNodes(graph);
+        const layers = LayeredLayout.orderLayers(LayeredLayout.assignLayers(nodes));
+
+        const nodePositionUpdates = {} as NodePositionUpdates;
+
+        if (layers.length === 0) {
+            ColumnLayout.arrangeDanglingNodes(danglingNodes, 0, 0, nodePositionUpdates);
+            return nodePositionUpdates;
+        }
+
+        LayeredLayout.positionNodes(layers);
+
+        // Move the graph so that its top edge lies at zero, like the column layout does
+        let top    = Infinity;
+        let bottom = -Infinity;
+
+        for (const layer of layers) {
+            for (const node of layer) {
+                top    = Math.min(top, node.y - node.rect.height / 2);
+                bottom = Math.max(bottom, node.y + node.rect.height / 2);
+            }
+        }
+
+        let xOffset = 0;
+
+        for (const layer of layers) {
+            const width = Math.max(...layer.map(node => node.rect.width));
+            const x     = xOffset + width / 2;
+
+            for (const node of layer) {
+                if (node.connectionID) {
+                    nodePositionUpdates[node.connectionID] = {x, y: node.y - top};
+                }
+            }
+
+            xOffset += width + LayeredLayout.layerSpacing;
+        }
+
+        ColumnLayout.arrangeDanglingNodes(danglingNodes, xOffset - LayeredLayout.layerSpacing, bottom - top, nodePositionUpdates);
+
+        return nodePositionUpdates;
+    }
+
+    /**
+     * Links nodes to each other, turning around edges that close a cycle, so the graph can be layered
+     */
+    private static makeLayerNodes(graph: LayoutGraph): LayerNode[] {
+
+        // Go through nodes in a stable order, so the same graph is always laid out in the same way
+        const ids   = Object.keys(graph).sort((a, b) => a.localeCompare(b));
+        const nodes = new Map<string, LayerNode>();
+
+        for (const id of ids) {
+            nodes.set(id, {
+                id,
+                connectionID: graph[id].connectionID,
+                rect: graph[id].rect,
+                layer: 0,
+                predecessors: [],
+                successors: [],
+                y: 0
+            });
+        }
+
+        const visited = new Set<string>();
+        const onPath  = new Set<string>();
+
+        const visit = (id: string) => {
+            visited.add(id);
+            onPath.add(id);
+
+            for (const successorID of graph[id].outputs) {
+                if (!nodes.has(successorID) || successorID === id) {
+                    continue;
+                }
+
+                let source      = nodes.get(id);
+                let destination = nodes.get(successorID);
+
+                if (onPath.has(successorID)) {
+                    [source, destination] = [destination, source];
+                } else if (!visited.has(successorID)) {
+                    visit(successorID);
+                }
+
+                source.successors.push(destination);
+                destination.predecessors.push(source);
+            }
+
+            onPath.delete(id);
+        };
+
+        // Start from nodes that have no inputs, so that cycles get broken as far downstream as possible
+        for (const id of [...ids.filter(id => graph[id].inputs.length === 0), ...ids]) {
+            if (!visited.has(id)) {
+                visit(id);
+            }
+        }
+
+        return Array.from(nodes.values());
+    }
+
+    /**
+     * Puts each node one layer after the furthest of its predecessors, and nodes without predecessors
+     * right before the closest of their successors, so inputs don't pile up in the first layer.
+     * Edges that span multiple layers get dummy nodes in each layer they go through.
+     */
+    private static assignLayers(nodes: LayerNode[]): LayerNode[][] {
+
+        const sorted    = LayeredLayout.sortTopologically(nodes);
+        let lowestLayer = 0;
+
+        for (const node of sorted) {
+            node.layer = node.predecessors.reduce((layer, predecessor) => Math.max(layer, predecessor.layer + 1), 0);
+        }
+
+        for (const node of sorted) {
+            if (node.predecessors.length === 0 && node.successors.length) {
+                node.layer  = Math.min(...node.successors.map(successor => successor.layer)) - 1;
+                lowestLayer = Math.min(lowestLayer, node.layer);
+            }
+        }
+
+        const layers = [] as LayerNode[][];
+
+        for (const node of sorted) {
+            node.layer -= lowestLayer;
+            (layers[node.layer] || (layers[node.layer] = [])).push(node);
+        }
+
+        for (const node of sorted) {
+            node.successors.slice().forEach((successor, index) => {
+
+                let previous = node;
+
+                for (let layer = node.layer + 1; layer < successor.layer; layer++) {
+                    const dummy = {
+                        id: `${node.id}->${successor.id}#${layer}`,
+                        rect: {width: 0, height: 0},
+                        layer,
+                        predecessors: [previous],
+                        successors: [],
+                        y: 0
+                    } as LayerNode;
+
+                    if (previous === node) {
+                        node.successors[index] = dummy;
+                    } else {
+                        previous.successors.push(dummy);
+                    }
+
+                    (layers[layer] || (layers[layer] = [])).push(dummy);
+                    previous = dummy;
+                }
+
+                if (previous !== node) {
+                    previous.successors.push(successor);
+                    successor.predecessors[successor.predecessors.indexOf(node)] = previous;
+                }
+            });
+        }
+
+        // Layers can be left empty when a node without predecessors got pulled towards its successors
+        return layers.filter(layer => layer && layer.length);
+    }
+
+    private static sortTopologically(nodes: LayerNode[]): LayerNode[] {
+        const remaining = new Map<LayerNode, number>();
+        const sorted    = [] as LayerNode[];
+
+        for (const node of nodes) {
+            remaining.set(node, node.predecessors.length);
+
+            if (node.predecessors.length === 0) {
+                sorted.push(node);
+            }
+        }
+
+        for (let i = 0; i < sorted.length; i++) {
+            for (const successor of sorted[i].successors) {
+                remaining.set(successor, remaining.get(successor) - 1);
+
+                if (remaining.get(successor) === 0) {
+                    sorted.push(successor);
+                }
+            }
+        }
+
+        return sorted;
+    }
+
+    /**
+     * Reorders nodes within layers by the median position of their neighbours, sweeping down and up the layers,
+     * and then swaps neighbouring nodes wherever that removes crossings. Keeps the best order that was found.
+     */
+    private static orderLayers(layers: LayerNode[][]): LayerNode[][] {
+
+        // Start from an order that follows predecessors, which is already a good part of the way
+        for (let i = 1; i < layers.length; i++) {
+            LayeredLayout.sortByMedian(layers[i], layers[i - 1], node => node.predecessors);
+        }
+
+        let best          = layers.map(layer => layer.slice());
+        let bestCrossings = LayeredLayout.countCrossings(layers);
+
+        for (let iteration = 0; iteration < LayeredLayout.orderingIterations && bestCrossings > 0; iteration++) {
+
+            if (iteration % 2 === 0) {
+                for (let i = 1; i < layers.length; i++) {
+                    LayeredLayout.sortByMedian(layers[i], layers[i - 1], node => node.predecessors);
+                }
+            } else {
+                for (let i = layers.length - 2; i >= 0; i--) {
+                    LayeredLayout.sortByMedian(layers[i], layers[i + 1], node => node.successors);
+                }
+            }
+
+            LayeredLayout.transpose(layers);
+
+            const crossings = LayeredLayout.countCrossings(layers);
+
+            if (crossings < bestCrossings) {
+                best          = layers.map(layer => layer.slice());
+                bestCrossings = crossings;
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Sorts the layer by medians of neighbour positions in the fixed layer.
+     * Nodes without neighbours there keep their place.
+     */
+    private static sortByMedian(layer: LayerNode[], fixed: LayerNode[], neighbours: (node: LayerNode) => LayerNode[]): void {
+        const positions = new Map<LayerNode, number>();
+        fixed.forEach((node, index) => positions.set(node, index));
+
+        const medians = new Map<LayerNode, number>();
+
+        layer.forEach((node, index) => {
+            const neighbourPositions = neighbours(node).map(neighbour => positions.get(neighbour)).sort((a, b) => a - b);
+            const middle             = Math.floor(neighbourPositions.length / 2);
+
+            if (neighbourPositions.length === 0) {
+                medians.set(node, index);
+            } else if (neighbourPositions.length % 2) {
+                medians.set(node, neighbourPositions[middle]);
+            } else {
+                medians.set(node, (neighbourPositions[middle - 1] + neighbourPositions[middle]) / 2);
+            }
+        });
+
+        // Break ties by the current order, so sorting doesn't shuffle nodes that are already in place
+        const current = new Map<LayerNode, number>();
+        layer.forEach((node, index) => current.set(node, index));
+
+        layer.sort((a, b) => medians.get(a) - medians.get(b) || current.get(a) - current.get(b));
+    }
+
+    /**
+     * Swaps neighbouring nodes while that reduces crossings with the layers on both sides
+     */
+    private static transpose(layers: LayerNode[][]): void {
+        let improved = true;
+
+        for (let pass = 0; improved && pass < layers.length; pass++) {
+            improved = false;
+
+            for (let i = 0; i < layers.length; i++) {
+                const layer = layers[i];
+
+                for (let j = 0; j < layer.length - 1; j++) {
+                    const upper = layers[i - 1] || [];
+                    const lower = layers[i + 1] || [];
+
+                    const before = LayeredLayout.countPairCrossings(layer[j], layer[j + 1], upper, lower);
+                    const after  = LayeredLayout.countPairCrossings(layer[j + 1], layer[j], upper, lower);
+
+                    if (after < before) {
+                        [layer[j], layer[j + 1]] = [layer[j + 1], layer[j]];
+                        improved = true;
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * Counts crossings between edges of two neighbouring nodes, with the first one placed above the second one
+     */
+    private static countPairCrossings(first: LayerNode, second: LayerNode, upper: LayerNode[], lower: LayerNode[]): number {
+        let crossings = 0;
+
+        const count = (firstNeighbours: LayerNode[], secondNeighbours: LayerNode[], layer: LayerNode[]) => {
+            for (const a of firstNeighbours) {
+                for (const b of secondNeighbours) {
+                    if (layer.indexOf(a) > layer.indexOf(b)) {
+                        crossings++;
+                    }
+                }
+            }
+        };
+
+        count(first.predecessors, second.predecessors, upper);
+        count(first.successors, second.successors, lower);
+
+        return crossings;
+    }
+
+    private static countCrossings(layers: LayerNode[][]): number {
+        let crossings = 0;
+
+        for (let i = 0; i < layers.length - 1; i++) {
+            const positions = new Map<LayerNode, number>();
+            layers[i + 1].forEach((node, index) => positions.set(node, index));
+
+            // Edges in the order of their sources, as pairs of source and destination positions
+            const edges = [] as number[][];
+            layers[i].forEach((node, index) => {
+                for (const successor of node.successors) {
+                    edges.push([index, positions.get(successor)]);
+                }
+            });
+
+            for (let a = 0; a < edges.length; a++) {
+                for (let b = a + 1; b < edges.length; b++) {
+                    if (edges[a][0] !== edges[b][0] && edges[a][1] > edges[b][1]) {
+                        crossings++;
+                    }
+                }
+            }
+        }
+
+        return crossings;
+    }
+
+    /**
+     * Gives nodes vertical positions that keep the order within layers, leave enough room for each node,
+     * and bring nodes as close as they can get to the average position of their neighbours, which straightens edges
+     */
+    private static positionNodes(layers: LayerNode[][]): void {
+
+        for (const layer of layers) {
+            let y = 0;
+
+            layer.forEach((node, index) => {
+                if (index > 0) {
+                    y += LayeredLayout.getSeparation(layer[index - 1], node);
+                }
+
+                node.y = y;
+            });
+        }
+
+        for (let iteration = 0; iteration < LayeredLayout.positioningIterations; iteration++) {
+
+            if (iteration % 2 === 0) {
+                for (let i = 1; i < layers.length; i++) {
+                    LayeredLayout.placeLayer(layers[i], node => node.predecessors);
+                }
+            } else {
+                for (let i = layers.length - 2; i >= 0; i--) {
+                    LayeredLayout.placeLayer(layers[i], node => node.successors);
+                }
+            }
+        }
+    }
+
+    /**
+     * Places nodes of a layer as close to their wanted positions as the room they need allows.
+     *
+     * With offsets that each node needs from the first one, node positions minus offsets have to be non-decreasing,
+     * and the closest such positions to the wanted ones are found by pooling adjacent violators.
+     */
+    private static placeLayer(layer: LayerNode[], neighbours: (node: LayerNode) => LayerNode[]): void {
+
+        const offsets = [0];
+        for (let i = 1; i < layer.length; i++) {
+            offsets[i] = offsets[i - 1] + LayeredLayout.getSeparation(layer[i - 1], layer[i]);
+        }
+
+        const blocks = [] as { value: number, size: number }[];
+
+        layer.forEach((node, index) => {
+            const adjacent = neighbours(node);
+            const wanted   = adjacent.length
+                ? adjacent.reduce((sum, neighbour) => sum + neighbour.y, 0) / adjacent.length
+                : node.y;
+
+            blocks.push({value: wanted - offsets[index], size: 1});
+
+            while (blocks.length > 1 && blocks[blocks.length - 2].value > blocks[blocks.length - 1].value) {
+                const last     = blocks.pop();
+                const previous = blocks[blocks.length - 1];
+
+                previous.value = (previous.value * previous.size + last.value * last.size) / (previous.size + last.size);
+                previous.size += last.size;
+            }
+        });
+
+        let index = 0;
+        for (const block of blocks) {
+            for (let i = 0; i < block.size; i++, index++) {
+                layer[index].y = block.value + offsets[index];
+            }
+        }
+    }
+
+    private static getSeparation(upper: LayerNode, lower: LayerNode): number {
+        return (upper.rect.height + lower.rect.height) / 2 + LayeredLayout.nodeSpacing;
+    }
+}
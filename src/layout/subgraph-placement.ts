@@ -0,0 +1,124 @@
+import {LayoutRect, NodePositionUpdates} from "./column-layout";
+
+/**
+ * Node that already has its place, by the position of its center and its dimensions
+ */
+export type PlacedNode = { x: number, y: number } & LayoutRect;
+
+type Box = { left: number, top: number, right: number, bottom: number };
+
+/**
+ * Moves a block of freshly laid out nodes into a graph whose other nodes stay where they are.
+ *
+ * The block goes right after the nodes that feed into it, or right before the nodes it feeds into,
+ * centered on its neighbours across the direction of the graph. If that spot is taken, the block slides
+ * across the direction to the nearest place where it doesn't cover any other node.
+ *
+ * Works in the left-to-right geometry that layouts use.
+ */
+export class SubgraphPlacement {
+
+    /** Horizontal space between the block and the neighbours it connects to */
+    static flowSpacing = 60;
+
+    /** Space to keep between the block and nodes it slides past */
+    static crossSpacing = 20;
+
+    /**
+     * @param block Positions of the nodes that are being placed, relative to each other
+     * @param rects Dimensions of the nodes that are being placed, indexed by connection ID
+     * @param fixed Nodes that stay where they are
+     * @param predecessors Fixed nodes with edges that lead into the block
+     * @param successors Fixed nodes with edges that come out of the block
+     * @param fallback Where to center the block if it has no neighbours
+     */
+    static place(block: NodePositionUpdates,
+                 rects: { [connectionID: string]: LayoutRect },
+                 fixed: PlacedNode[],
+                 predecessors: PlacedNode[],
+                 successors: PlacedNode[],
+                 fallback: { x: number, y: number }): NodePositionUpdates {
+
+        const bounds = SubgraphPlacement.getBounds(Object.keys(block).map(connectionID => ({
+            ...block[connectionID],
+            ...rects[connectionID]
+        })));
+
+        if (!bounds) {
+            return {};
+        }
+
+        const width      = bounds.right - bounds.left;
+        const neighbours = predecessors.concat(successors);
+
+        let dx = fallback.x - (bounds.left + bounds.right) / 2;
+        let dy = fallback.y - (bounds.top + bounds.bottom) / 2;
+
+        if (predecessors.length) {
+            const after = Math.max(...predecessors.map(node => node.x + node.width / 2));
+            dx          = after + SubgraphPlacement.flowSpacing - bounds.left;
+        } else if (successors.length) {
+            const before = Math.min(...successors.map(node => node.x - node.width / 2));
+            dx           = before - SubgraphPlacement.flowSpacing - width - bounds.left;
+        }
+
+        if (neighbours.length) {
+            const middle = neighbours.reduce((sum, node) => sum + node.y, 0) / neighbours.length;
+            dy           = middle - (bounds.top + bounds.bottom) / 2;
+        }
+
+        dy += SubgraphPlacement.findFreeOffset({
+            left: bounds.left + dx,
+            right: bounds.right + dx,
+            top: bounds.top + dy,
+            bottom: bounds.bottom + dy
+        }, fixed.map(node => SubgraphPlacement.getBounds([node])));
+
+        const placed = {} as NodePositionUpdates;
+        for (const connectionID in block) {
+            placed[connectionID] = {x: block[connectionID].x + dx, y: block[connectionID].y + dy};
+        }
+
+        return placed;
+    }
+
+    /**
+     * Finds the smallest vertical shift after which the box doesn't overlap any of the obstacles.
+     * The box can only come to rest next to an obstacle, so those are the only shifts worth trying.
+     */
+    private static findFreeOffset(box: Box, obstacles: Box[]): number {
+        const gap = SubgraphPlacement.crossSpacing;
+
+        const candidates = [0];
+        for (const obstacle of obstacles) {
+            candidates.push(obstacle.top - gap - box.bottom, obstacle.bottom + gap - box.top);
+        }
+
+        candidates.sort((a, b) => Math.abs(a) - Math.abs(b));
+
+        // Rounding errors shouldn't rule out a box that lies right at the gap
+        const clearance = gap - 1;
+        const isFree    = (offset: number) => obstacles.every(obstacle =>
+            obstacle.right + clearance <= box.left
+            || obstacle.left - clearance >= box.right
+            || obstacle.bottom + clearance <= box.top + offset
+            || obstacle.top - clearance >= box.bottom + offset
+        );
+
+        // Below the lowest obstacle there is always room, so this finds something
+        return candidates.find(isFree) || 0;
+    }
+
+    private static getBounds(nodes: PlacedNode[]): Box | undefined {
+        if (nodes.length === 0) {
+            return undefined;
+        }
+
+        return {
+            left: Math.min(...nodes.map(node => node.x - node.width / 2)),
+            right: Math.max(...nodes.map(node => node.x + node.width / 2)),
+            top: Math.min(...nodes.map(node => node.y - node.height / 2)),
+            bottom: Math.max(...nodes.map(node => node.y + node.height / 2))
+        };
+    }
+}
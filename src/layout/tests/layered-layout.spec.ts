@@ -0,0 +1,103 @@
+import {WorkflowFactory}         from "cwlts/models";
+import {GraphLayout}             from "../graph-layout";
+import {LayoutGraph, LayoutNode} from "../column-layout";
+import {LayeredLayout}           from "../layered-layout";
+
+describe("Layered layout", () => {
+
+    /**
+     * Counts pairs of edges that cross each other, taking edges as straight lines between the ports they connect
+     */
+    function countCrossings(layout: GraphLayout): number {
+        const lines = layout.getEdges().map(({edge}) => [
+            layout.getPortPosition(edge.source.id),
+            layout.getPortPosition(edge.destination.id)
+        ]);
+
+        const side = (p, q, r) => Math.sign((q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x));
+
+        let crossings = 0;
+
+        for (let i = 0; i < lines.length; i++) {
+            for (let j = i + 1; j < lines.length; j++) {
+                const [a, b] = lines[i];
+                const [c, d] = lines[j];
+
+                if (side(a, b, c) * side(a, b, d) < 0 && side(c, d, a) * side(c, d, b) < 0) {
+                    crossings++;
+                }
+            }
+        }
+
+        return crossings;
+    }
+
+    function arrangeSample(name: string, layout: "columns" | "layered"): GraphLayout {
+        const graphLayout = new GraphLayout(WorkflowFactory.from(require(`../../../cwl-samples/${name}.json`)));
+        graphLayout.arrange(layout);
+
+        return graphLayout;
+    }
+
+    function makeGraph(edges: string[][]): LayoutGraph {
+        const graph = {} as LayoutGraph;
+        const node  = (id: string): LayoutNode => graph[id] || (graph[id] = {
+            inputs: [],
+            outputs: [],
+            type: "step",
+            connectionID: id,
+            rect: {width: 50, height: 50}
+        });
+
+        for (const [source, destination] of edges) {
+            node(source).outputs.push(destination);
+            node(destination).inputs.push(source);
+        }
+
+        return graph;
+    }
+
+    it("crosses fewer edges than the column layout on a large workflow", () => {
+
+        const columns = countCrossings(arrangeSample("bcbio", "columns"));
+        const layered = countCrossings(arrangeSample("bcbio", "layered"));
+
+        expect(layered).toBeLessThan(columns);
+    });
+
+    it("crosses no more edges than the column layout on a small workflow", () => {
+
+        const columns = countCrossings(arrangeSample("fastqc", "columns"));
+        const layered = countCrossings(arrangeSample("fastqc", "layered"));
+
+        expect(layered).toBeLessThanOrEqual(columns);
+    });
+
+    it("lays out a cycle by turning around the edge that closes it", () => {
+
+        const positions = LayeredLayout.arrange(makeGraph([
+            ["input", "first"],
+            ["first", "second"],
+            ["second", "first"],
+            ["second", "output"]
+        ]), {});
+
+        expect(Object.keys(positions).sort()).toEqual(["first", "input", "output", "second"]);
+        expect(positions["input"].x).toBeLessThan(positions["first"].x);
+        expect(positions["first"].x).toBeLessThan(positions["second"].x);
+        expect(positions["second"].x).toBeLessThan(positions["output"].x);
+    });
+
+    it("lays out a cycle that nothing leads into", () => {
+
+        const positions = LayeredLayout.arrange(makeGraph([
+            ["a", "b"],
+            ["b", "c"],
+            ["c", "a"],
+            ["c", "c"]
+        ]), {});
+
+        expect(positions["a"].x).toBeLessThan(positions["b"].x);
+        expect(positions["b"].x).toBeLessThan(positions["c"].x);
+    });
+});
@@ -0,0 +1,61 @@
+import {SubgraphPlacement} from "../subgraph-placement";
+
+describe("Subgraph placement", () => {
+
+    const rect = {width: 40, height: 40};
+
+    const block = {
+        first: {x: 0, y: 0},
+        second: {x: 100, y: 0}
+    };
+
+    const rects = {first: rect, second: rect};
+
+    const origin = {x: 0, y: 0};
+
+    it("puts the block right after the nodes that lead into it, centered on its neighbours", () => {
+
+        const predecessor = {x: 0, y: 200, ...rect};
+        const placed      = SubgraphPlacement.place(block, rects, [predecessor], [predecessor], [], origin);
+
+        expect(placed).toEqual({
+            first: {x: 20 + SubgraphPlacement.flowSpacing + 20, y: 200},
+            second: {x: 20 + SubgraphPlacement.flowSpacing + 120, y: 200}
+        });
+    });
+
+    it("puts the block right before the nodes it leads into when nothing leads into it", () => {
+
+        const successor = {x: 500, y: 0, ...rect};
+        const placed    = SubgraphPlacement.place(block, rects, [successor], [], [successor], origin);
+
+        expect(placed.second.x + 20).toBe(480 - SubgraphPlacement.flowSpacing);
+        expect(placed.second.x - placed.first.x).toBe(100);
+    });
+
+    it("slides the block across the graph to the closest spot where it doesn't cover other nodes", () => {
+
+        const predecessor = {x: 0, y: 0, ...rect};
+        const obstacle    = {x: 100, y: 10, ...rect};
+
+        const placed = SubgraphPlacement.place({node: origin}, {node: rect}, [predecessor, obstacle], [predecessor], [], origin);
+
+        // Obstacle starts at -10, and the block has to keep the spacing from it
+        expect(placed.node.x).toBe(100);
+        expect(placed.node.y).toBe(-10 - SubgraphPlacement.crossSpacing - 20);
+    });
+
+    it("centers the block on the fallback point when it has no neighbours", () => {
+
+        const placed = SubgraphPlacement.place(block, rects, [], [], [], {x: 300, y: 300});
+
+        expect(placed).toEqual({
+            first: {x: 250, y: 300},
+            second: {x: 350, y: 300}
+        });
+    });
+
+    it("places nothing for an empty block", () => {
+        expect(SubgraphPlacement.place({}, {}, [], [], [], origin)).toEqual({});
+    });
+});
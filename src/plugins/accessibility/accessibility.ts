@@ -0,0 +1,206 @@
+import {Edge}                                from "../../graph/edge";
+import {Workflow}                            from "../../graph/workflow";
+import {AnnotationChange, GraphChangeRecord} from "../plugin";
+import {PluginBase}                          from "../plugin-base";
+import {SelectionPlugin}                     from "../selection/selection";
+
+/**
+ * Makes the graph understandable to screen readers.
+ *
+ * Nodes, ports and edges describe themselves through their templates, this plugin names the canvas itself
+ * and announces selection changes and changes that other plugins make to the graph through a live region.
+ * The live region is visually hidden and placed right after the SVG root, since SVG has no reliable live regions.
+ */
+export class AccessibilityPlugin extends PluginBase {
+
+    private svg: SVGSVGElement;
+
+    /** Element whose content screen readers read out whenever it changes */
+    private liveRegion: HTMLElement;
+
+    private announceTimeout: number;
+
+    private cleanups: Function[] = [];
+
+    private css = {
+        plugin: "__plugin-accessibility"
+    };
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.svg = this.workflow.svgRoot;
+        this.svg.classList.add(this.css.plugin);
+        this.svg.setAttribute("role", "graphics-document");
+        this.svg.setAttribute("aria-roledescription", "workflow");
+
+        this.liveRegion = document.createElement("div");
+        this.liveRegion.setAttribute("role", "status");
+        this.liveRegion.setAttribute("aria-live", "polite");
+        this.liveRegion.setAttribute("aria-atomic", "true");
+
+        // Hidden from sight but not from assistive technology, which “display: none” would do
+        Object.assign(this.liveRegion.style, {
+            position: "absolute",
+            width: "1px",
+            height: "1px",
+            margin: "-1px",
+            padding: "0",
+            overflow: "hidden",
+            clip: "rect(0 0 0 0)",
+            whiteSpace: "nowrap",
+            border: "0"
+        });
+
+        if (this.svg.parentNode) {
+            this.svg.parentNode.insertBefore(this.liveRegion, this.svg.nextSibling);
+        }
+
+        this.cleanups.push(
+            this.workflow.on("selectionChange", selection => this.announce(this.describeSelection(selection))),
+            this.workflow.on("afterChange", change => this.announce(this.describeChange(change as GraphChangeRecord)))
+        );
+    }
+
+    afterModelChange(): void {
+        const model = this.workflow.model;
+
+        this.svg.setAttribute("aria-label", `Workflow ${model.label || model.id || ""}`.trim());
+    }
+
+    destroy(): void {
+        clearTimeout(this.announceTimeout);
+
+        for (const fn of this.cleanups) {
+            fn();
+        }
+
+        this.cleanups = [];
+        this.liveRegion.remove();
+
+        this.svg.classList.remove(this.css.plugin);
+        this.svg.removeAttribute("role");
+        this.svg.removeAttribute("aria-roledescription");
+        this.svg.removeAttribute("aria-label");
+    }
+
+    /**
+     * Reads out a message through the live region
+     */
+    announce(message: string): void {
+        if (!message) {
+            return;
+        }
+
+        clearTimeout(this.announceTimeout);
+
+        // Screen readers don't announce content that hasn't changed, so empty the region first
+        this.liveRegion.textContent = "";
+        this.announceTimeout        = window.setTimeout(() => this.liveRegion.textContent = message, 100);
+    }
+
+    private describeSelection(selection: Map<string, "node" | "edge">): string {
+
+        if (selection.size === 0) {
+            return "Selection cleared";
+        }
+
+        if (selection.size === 1) {
+            const [[key, type]] = Array.from(selection);
+
+            if (type === "node") {
+                const node = this.svg.querySelector(`.node[data-connection-id="${key}"]`);
+                return "Selected " + (node ? node.getAttribute("aria-label") : this.getNodeName(key));
+            }
+
+            const [source, destination] = key.split(SelectionPlugin.edgePortsDelimiter);
+            return "Selected " + Edge.makeAccessibleName({id: source}, {id: destination});
+        }
+
+        const types = Array.from(selection.values());
+        const nodes = types.filter(type => type === "node").length;
+        const edges = types.length - nodes;
+
+        const parts = [];
+
+        if (nodes) {
+            parts.push(AccessibilityPlugin.count(nodes, "node"));
+        }
+
+        if (edges) {
+            parts.push(AccessibilityPlugin.count(edges, "edge"));
+        }
+
+        return "Selected " + parts.join(" and ");
+    }
+
+    private describeChange(change: GraphChangeRecord): string | undefined {
+
+        const nodes = (change.nodeIDs || []).map(id => this.getNodeName(id));
+        const edges = (change.connections || []).map(c => Edge.makeAccessibleName({id: c.source}, {id: c.destination}));
+
+        switch (change.type) {
+            case "node-move":
+                return "Moved " + this.listNodes(nodes);
+            case "arrange":
+                return "Arranged the workflow";
+            case "align":
+                return "Aligned " + this.listNodes(nodes);
+            case "distribute":
+                return "Distributed " + this.listNodes(nodes);
+            case "connect":
+                return "Created " + edges.join(", ");
+            case "disconnect":
+                return "Removed " + edges.join(", ");
+            case "delete":
+                return "Deleted " + this.listNodes(nodes)
+                    + (edges.length ? " and " + AccessibilityPlugin.count(edges.length, "edge") : "");
+            case "create-input":
+                return "Created input " + nodes[nodes.length - 1];
+            case "create-output":
+                return "Created output " + nodes[nodes.length - 1];
+            case "paste":
+                return "Pasted " + this.listNodes(nodes);
+            case "duplicate":
+                return "Duplicated " + this.listNodes(nodes);
+            case "annotation-create":
+                return "Added " + AccessibilityPlugin.describeAnnotation(change);
+            case "annotation-update":
+                return "Updated " + AccessibilityPlugin.describeAnnotation(change);
+            case "annotation-delete":
+                return "Removed " + AccessibilityPlugin.describeAnnotation(change);
+            case "undo":
+                return "Undone";
+            case "redo":
+                return "Redone";
+        }
+    }
+
+    /**
+     * Names a few nodes, and only counts them if there are more, so announcements stay short
+     */
+    private listNodes(names: string[]): string {
+        if (names.length === 0 || names.length > 3) {
+            return AccessibilityPlugin.count(names.length, "node");
+        }
+
+        return names.join(", ");
+    }
+
+    private getNodeName(connectionID: string): string {
+        const node = this.workflow.model.findById(connectionID);
+
+        return node ? node.label || node.id : connectionID;
+    }
+
+    private static describeAnnotation(change: AnnotationChange): string {
+        // Notes can run over several lines, the first one is enough to tell which note it is
+        const [firstLine] = (change.text || "").split("\n");
+
+        return firstLine ? `${change.annotationType} ${firstLine}` : change.annotationType;
+    }
+
+    private static count(amount: number, noun: string): string {
+        return `${amount} ${noun}${amount === 1 ? "" : "s"}`;
+    }
+}
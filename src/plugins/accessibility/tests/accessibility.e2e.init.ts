@@ -0,0 +1,21 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory} from "cwlts/models";
+import {AccessibilityPlugin, AnnotationPlugin, DeletionPlugin, SelectionPlugin, Workflow} from "../../../";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const selection   = new SelectionPlugin();
+const deletion    = new DeletionPlugin();
+const annotations = new AnnotationPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [new AccessibilityPlugin(), selection, deletion, annotations]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, selection, deletion, annotations});
@@ -0,0 +1,72 @@
+import {browser, by, element} from "protractor";
+import {serveCompiled}        from "../../../utils/test-utils";
+
+describe("Accessibility", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    /**
+     * Announcements get into the live region after a short delay, so screen readers notice the change
+     */
+    async function readAnnouncement(): Promise<string> {
+        await browser.sleep(200);
+        return element(by.css(`[role="status"]`)).getAttribute("textContent") as Promise<string>;
+    }
+
+    it("names the canvas, nodes, ports and edges", async function () {
+
+        const label = (selector: string) => element(by.css(selector)).getAttribute("aria-label");
+
+        expect(await label("#svg")).toBe("Workflow accessibility-test");
+        expect(await label(`.node[data-id="print"]`)).toBe("Step print, tool, 1 input, 1 output");
+        expect(await label(`.node[data-id="idle"]`)).toBe("Step idle, tool, 0 inputs, 0 outputs");
+        expect(await label(`.node[data-id="message"]`)).toBe("Input message, string");
+        expect(await label(`.node[data-id="print"] .input-port`)).toBe("Input port message");
+        expect(await label(`.edge[data-destination-connection="in/print/message"]`)).toBe("Edge from input message to print.message");
+
+        expect(await element(by.css(`.node[data-id="print"]`)).getAttribute("role")).toBe("graphics-object");
+        expect(await element(by.css(".edge")).getAttribute("role")).toBe("graphics-symbol");
+    });
+
+    it("announces the selection", async function () {
+
+        await browser.executeScript(() => (window as any).selection.selectStep("print"));
+
+        expect(await readAnnouncement()).toBe("Selected Step print, tool, 1 input, 1 output");
+    });
+
+    it("announces changes to the graph", async function () {
+
+        await browser.executeScript(() => {
+            const {selection, deletion} = window as any;
+
+            selection.selectStep("print");
+            deletion.deleteSelection();
+        });
+
+        expect(await readAnnouncement()).toBe("Deleted print and 2 edges");
+    });
+
+    it("announces annotations by their kind and text", async function () {
+
+        await browser.executeScript(() => (window as any).annotations.addNote("replace with GATK4\nsoon"));
+
+        expect(await readAnnouncement()).toBe("Added note replace with GATK4");
+
+        await browser.executeScript(() => {
+            const {annotations} = window as any;
+            annotations.remove(annotations.getAnnotations()[0].id);
+        });
+
+        expect(await readAnnouncement()).toBe("Removed note replace with GATK4");
+    });
+});
@@ -0,0 +1,246 @@
+import {Workflow}        from "../../graph/workflow";
+import {NodePosition}    from "../../graph/graph-node";
+import {EdgeObstacle}    from "../../graph/edge-router";
+import {AlignChange}     from "../plugin";
+import {PluginBase}      from "../plugin-base";
+import {SelectionPlugin} from "../selection/selection";
+
+/**
+ * Side of the nodes to line up. “center” puts centers of nodes on the same vertical line,
+ * and “middle” puts them on the same horizontal line.
+ */
+export type AlignEdge = "left" | "center" | "right" | "top" | "middle" | "bottom";
+
+export type DistributeAxis = "horizontal" | "vertical";
+
+export interface AlignPluginParams {
+    /** Whether the keyboard shortcuts should work, commands can be called through the API either way */
+    keyboardShortcuts?: boolean
+}
+
+/**
+ * Lines up selected nodes by one of their sides or by their centers, and spreads them evenly.
+ *
+ * Nodes are lined up against the outermost one, so aligning to the left moves all nodes to the left side of the
+ * leftmost node. Distributing keeps the outermost nodes where they are and leaves equal gaps between the others.
+ *
+ * Alt+A, Alt+D, Alt+W and Alt+S align to the left, right, top and bottom, Alt+H and Alt+V align centers
+ * horizontally and vertically, and Alt+Shift+H and Alt+Shift+V distribute horizontally and vertically.
+ */
+export class AlignPlugin extends PluginBase {
+
+    private keyboardShortcuts = true;
+
+    private disposers: Function[] = [];
+
+    constructor(parameters: AlignPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        if (this.keyboardShortcuts) {
+            const keyDownListener = this.onKeyDown.bind(this);
+
+            window.addEventListener("keydown", keyDownListener, true);
+            this.disposers.push(() => window.removeEventListener("keydown", keyDownListener, true));
+        }
+    }
+
+    destroy(): void {
+        for (const dispose of this.disposers) {
+            dispose();
+        }
+
+        this.disposers = [];
+    }
+
+    /**
+     * Lines up nodes by the given side
+     * @param nodeIDs Connection IDs of nodes to line up, selected nodes by default
+     * @returns new positions of nodes that got moved, indexed by connection ID
+     */
+    align(edge: AlignEdge, nodeIDs = this.getSelectedNodeIDs()): { [connectionID: string]: NodePosition } {
+        const nodes = this.findNodes(nodeIDs);
+
+        if (nodes.size < 2) {
+            return {};
+        }
+
+        const circles = Array.from(nodes.values());
+
+        const left   = Math.min(...circles.map(c => c.x - c.radius));
+        const right  = Math.max(...circles.map(c => c.x + c.radius));
+        const top    = Math.min(...circles.map(c => c.y - c.radius));
+        const bottom = Math.max(...circles.map(c => c.y + c.radius));
+
+        const positions = {};
+
+        nodes.forEach((c, connectionID) => {
+            const x = {left: left + c.radius, center: (left + right) / 2, right: right - c.radius}[edge];
+            const y = {top: top + c.radius, middle: (top + bottom) / 2, bottom: bottom - c.radius}[edge];
+
+            positions[connectionID] = {
+                x: x === undefined ? c.x : x,
+                y: y === undefined ? c.y : y
+            };
+        });
+
+        return this.moveNodes("align", nodes, positions);
+    }
+
+    /**
+     * Spreads nodes so that there are equal gaps between them, keeping the outermost ones in place
+     * @param nodeIDs Connection IDs of nodes to spread, selected nodes by default
+     * @returns new positions of nodes that got moved, indexed by connection ID
+     */
+    distribute(axis: DistributeAxis, nodeIDs = this.getSelectedNodeIDs()): { [connectionID: string]: NodePosition } {
+        const nodes = this.findNodes(nodeIDs);
+
+        if (nodes.size < 3) {
+            return {};
+        }
+
+        const coordinate = axis === "horizontal" ? "x" : "y";
+        const sorted     = Array.from(nodes.keys()).sort((a, b) => nodes.get(a)[coordinate] - nodes.get(b)[coordinate]);
+
+        const first = nodes.get(sorted[0]);
+        const last  = nodes.get(sorted[sorted.length - 1]);
+
+        const start = first[coordinate] - first.radius;
+        const end   = last[coordinate] + last.radius;
+        const taken = sorted.reduce((sum, id) => sum + nodes.get(id).radius * 2, 0);
+        const gap   = (end - start - taken) / (sorted.length - 1);
+
+        const positions = {};
+
+        let offset = start;
+        for (const connectionID of sorted) {
+            const c = nodes.get(connectionID);
+
+            positions[connectionID] = {x: c.x, y: c.y};
+            positions[connectionID][coordinate] = offset + c.radius;
+
+            offset += c.radius * 2 + gap;
+        }
+
+        return this.moveNodes("distribute", nodes, positions);
+    }
+
+    /**
+     * Writes new positions to the model and moves nodes and their edges on the canvas, as a single change
+     */
+    private moveNodes(type: "align" | "distribute",
+                      nodes: Map<string, EdgeObstacle>,
+                      positions: { [connectionID: string]: NodePosition }): { [connectionID: string]: NodePosition } {
+
+        const moved = Array.from(nodes.keys()).filter(id => {
+            const {x, y} = nodes.get(id);
+            return positions[id].x !== x || positions[id].y !== y;
+        });
+
+        if (moved.length === 0) {
+            return {};
+        }
+
+        const change: AlignChange = {
+            type,
+            nodeIDs: moved,
+            positions: moved.map(id => ({id, before: {x: nodes.get(id).x, y: nodes.get(id).y}}))
+        };
+
+        if (!this.workflow.editingEnabled || !this.onBeforeChange(change)) {
+            return {};
+        }
+
+        const updates = {};
+
+        for (const connectionID of moved) {
+            const position  = positions[connectionID];
+            const nodeModel = this.workflow.model.findById(connectionID);
+            const el        = this.workflow.workflow.querySelector(`.node[data-connection-id="${connectionID}"]`) as SVGGElement;
+
+            if (!nodeModel.customProps) {
+                nodeModel.customProps = {};
+            }
+
+            Object.assign(nodeModel.customProps, {
+                "sbg:x": position.x,
+                "sbg:y": position.y
+            });
+
+            el.transform.baseVal.getItem(0).setTranslate(position.x, position.y);
+
+            updates[connectionID] = position;
+        }
+
+        this.workflow.redrawEdges();
+
+        this.onAfterChange({
+            ...change,
+            positions: change.positions.map(({id, before}) => ({id, before, after: updates[id]}))
+        } as AlignChange);
+
+        return updates;
+    }
+
+    /**
+     * Finds circles of the given nodes, the way they currently are on the canvas
+     */
+    private findNodes(nodeIDs: string[]): Map<string, EdgeObstacle> {
+        const nodes = new Map<string, EdgeObstacle>();
+
+        this.workflow.getNodeObstacles().forEach((circle, el) => {
+            const connectionID = el.getAttribute("data-connection-id");
+
+            if (nodeIDs.indexOf(connectionID) !== -1) {
+                nodes.set(connectionID, circle);
+            }
+        });
+
+        return nodes;
+    }
+
+    private getSelectedNodeIDs(): string[] {
+        const selectionPlugin = this.workflow.getPlugin(SelectionPlugin);
+        const selection       = selectionPlugin ? selectionPlugin.getSelection() : new Map();
+
+        const nodeIDs = [];
+        selection.forEach((type, connectionID) => {
+            if (type === "node") {
+                nodeIDs.push(connectionID);
+            }
+        });
+
+        return nodeIDs;
+    }
+
+    private onKeyDown(ev: KeyboardEvent): void {
+        const target      = ev.target as Node;
+        const isTextField = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+        if (!ev.altKey || ev.ctrlKey || ev.metaKey || isTextField || !this.workflow.svgRoot.contains(target)) {
+            return;
+        }
+
+        // Alt changes the character that keys type on some layouts, so keys are told apart by their position
+        const commands = ev.shiftKey ? {
+            KeyH: () => this.distribute("horizontal"),
+            KeyV: () => this.distribute("vertical")
+        } : {
+            KeyA: () => this.align("left"),
+            KeyD: () => this.align("right"),
+            KeyW: () => this.align("top"),
+            KeyS: () => this.align("bottom"),
+            KeyH: () => this.align("center"),
+            KeyV: () => this.align("middle")
+        };
+
+        if (commands[ev.code]) {
+            ev.preventDefault();
+            commands[ev.code]();
+        }
+    }
+}
@@ -0,0 +1,24 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}           from "cwlts/models";
+import {SelectionPlugin, Workflow} from "../../../";
+import {AlignPlugin}               from "../align";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const align     = new AlignPlugin();
+const selection = new SelectionPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [align, selection]
+});
+
+wf.fitToViewport();
+
+// Keyboard shortcuts work only while the canvas has focus
+svgRoot.setAttribute("tabindex", "0");
+
+Object.assign(window, {wf, align, selection});
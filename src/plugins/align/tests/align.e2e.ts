@@ -0,0 +1,86 @@
+import {browser, protractor} from "protractor";
+import {serveCompiled}       from "../../../utils/test-utils";
+
+describe("Align", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("lines up nodes by their centers in a single change", async function () {
+
+        await browser.executeScript(() => {
+            (window as any).changes = [];
+            (window as any).wf.on("afterChange", change => (window as any).changes.push(change));
+
+            (window as any).align.align("middle", ["print", "idle"]);
+        });
+
+        const result = await browser.executeScript(() => {
+            const model = (window as any).wf.model;
+
+            return {
+                changes: (window as any).changes.splice(0),
+                print: model.findById("print").customProps["sbg:y"],
+                idle: model.findById("idle").customProps["sbg:y"]
+            };
+        }) as any;
+
+        expect(result.print).toBe(result.idle);
+        expect(result.changes.length).toBe(1);
+        expect(result.changes[0].type).toBe("align");
+    });
+
+    it("distributes selected nodes evenly on Alt+Shift+H", async function () {
+
+        await browser.executeScript(() => {
+            (window as any).changes = [];
+            (window as any).wf.on("afterChange", change => (window as any).changes.push(change));
+
+            const selection = (window as any).selection.getSelection();
+
+            // Code in here runs in the browser as it is, so it can't rely on compiler helpers for iterating
+            ["out/message/message", "idle", "print", "in/printed/printed"].forEach(id => selection.set(id, "node"));
+
+            (document.getElementById("svg") as any).focus();
+        });
+
+        await browser.actions()
+            .keyDown(protractor.Key.ALT)
+            .keyDown(protractor.Key.SHIFT)
+            .sendKeys("h")
+            .keyUp(protractor.Key.SHIFT)
+            .keyUp(protractor.Key.ALT)
+            .perform();
+
+        const result = await browser.executeScript(() => {
+            const gaps  = [];
+            const nodes = ["message", "idle", "print", "printed"].map(id => {
+                const el = document.querySelector(`.node[data-id="${id}"]`) as SVGGElement;
+
+                return {
+                    x: el.transform.baseVal.getItem(0).matrix.e,
+                    radius: (el.querySelector(".outer") as SVGCircleElement).r.baseVal.value
+                };
+            });
+
+            for (let i = 1; i < nodes.length; i++) {
+                gaps.push((nodes[i].x - nodes[i].radius) - (nodes[i - 1].x + nodes[i - 1].radius));
+            }
+
+            return {gaps, changes: (window as any).changes.splice(0)};
+        }) as any;
+
+        expect(result.gaps[1]).toBeCloseTo(result.gaps[0], 5);
+        expect(result.gaps[2]).toBeCloseTo(result.gaps[0], 5);
+        expect(result.changes.length).toBe(1);
+        expect(result.changes[0].type).toBe("distribute");
+    });
+});
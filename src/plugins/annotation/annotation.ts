@@ -0,0 +1,569 @@
+import {Workflow}         from "../../graph/workflow";
+import {TemplateParser}   from "../../graph/template-parser";
+import {HtmlUtils}        from "../../utils/html-utils";
+import {AnnotationChange} from "../plugin";
+import {PluginBase}       from "../plugin-base";
+import {SelectionPlugin}  from "../selection/selection";
+
+/**
+ * Sticky note or a labelled frame drawn on the canvas, stored along with the workflow
+ */
+export interface Annotation {
+
+    /** Unique among annotations of the workflow */
+    id: string;
+
+    type: "note" | "frame";
+
+    /** Top left corner in canvas coordinates */
+    x: number;
+    y: number;
+
+    width: number;
+    height: number;
+
+    /** Body of a note, or the label of a frame */
+    text: string;
+}
+
+export type AnnotationArea = { x: number, y: number, width: number, height: number };
+
+export interface AnnotationPluginParams {
+    /** Key in custom properties of the workflow under which annotations are stored */
+    storageKey?: string,
+
+    /** Space between a frame and the nodes it gets drawn around */
+    framePadding?: number
+}
+
+/**
+ * Lets people leave notes on the diagram and draw labelled frames around parts of it.
+ *
+ * Annotations are kept in custom properties of the workflow, so they are saved with the CWL document
+ * and come back when it is loaded. They are drawn behind nodes and edges as plain SVG, so they show up in
+ * pictures made by {@link SvgDumper} as well.
+ *
+ * Notes and frames can be dragged around, and resized by their bottom right corner. Frames are grabbed by their
+ * border or label, so that the area inside of them can still be panned and lasso selected. A double click edits
+ * the text, and Delete removes the annotation that was clicked last.
+ */
+export class AnnotationPlugin extends PluginBase {
+
+    private storageKey   = "sbg:annotations";
+    private framePadding = 30;
+
+    private static noteSize  = {width: 160, height: 80};
+    private static frameSize = {width: 300, height: 200};
+    private static minSize   = {width: 40, height: 30};
+
+    private svg: SVGSVGElement;
+
+    /** Group behind nodes and edges that annotations are drawn in */
+    private layer: SVGGElement;
+
+    /** Annotation that was clicked last, which the Delete key removes */
+    private activeID: string;
+
+    /** Field in which text of an annotation is being edited */
+    private editor: SVGForeignObjectElement;
+
+    /** Annotation that is being dragged or resized, how it was when the drag started, and where it is now */
+    private drag: { mode: "move" | "resize", start: Annotation, current: Annotation, change: AnnotationChange };
+
+    private detachDragFn: Function;
+
+    private cleanups: Function[] = [];
+
+    private css = {
+        plugin: "__plugin-annotation",
+        layer: "__annotation-plugin-layer",
+        annotation: "__annotation-plugin-annotation",
+        note: "__annotation-plugin-note",
+        frame: "__annotation-plugin-frame",
+        body: "__annotation-plugin-body",
+        text: "__annotation-plugin-text",
+        handle: "__annotation-plugin-handle",
+        active: "__annotation-plugin-active",
+        editor: "__annotation-plugin-editor"
+    };
+
+    constructor(parameters: AnnotationPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.svg = this.workflow.svgRoot;
+        this.svg.classList.add(this.css.plugin);
+
+        const clickListener    = this.onClick.bind(this);
+        const dblClickListener = this.onDoubleClick.bind(this);
+        const keyDownListener  = this.onKeyDown.bind(this);
+
+        this.svg.addEventListener("click", clickListener);
+        this.svg.addEventListener("dblclick", dblClickListener);
+        window.addEventListener("keydown", keyDownListener, true);
+
+        this.cleanups.push(
+            () => this.svg.removeEventListener("click", clickListener),
+            () => this.svg.removeEventListener("dblclick", dblClickListener),
+            () => window.removeEventListener("keydown", keyDownListener, true)
+        );
+    }
+
+    afterRender(): void {
+        this.render();
+
+        if (this.workflow.editingEnabled) {
+            this.attachDrag();
+        }
+    }
+
+    afterModelChange(): void {
+        this.closeEditor(false);
+        this.activeID = undefined;
+    }
+
+    onEditableStateChange(enabled: boolean): void {
+        if (enabled) {
+            this.attachDrag();
+        } else {
+            this.detachDrag();
+            this.closeEditor(false);
+        }
+    }
+
+    destroy(): void {
+        this.detachDrag();
+        this.closeEditor(false);
+
+        for (const fn of this.cleanups) {
+            fn();
+        }
+
+        this.cleanups = [];
+
+        if (this.layer) {
+            this.layer.remove();
+        }
+
+        this.svg.classList.remove(this.css.plugin);
+    }
+
+    getAnnotations(): Annotation[] {
+        const stored = this.workflow.model.customProps && this.workflow.model.customProps[this.storageKey];
+
+        return Array.isArray(stored) ? stored.map(annotation => ({...annotation})) : [];
+    }
+
+    /**
+     * Puts a note on the canvas
+     * @param position Top left corner of the note, in the middle of the visible part of the canvas by default
+     * @returns the note, or undefined if the change got vetoed
+     */
+    addNote(text = "", position?: { x: number, y: number }): Annotation | undefined {
+        const {width, height} = AnnotationPlugin.noteSize;
+        const center          = this.getViewportCenter();
+
+        return this.create({
+            type: "note",
+            x: position ? position.x : center.x - width / 2,
+            y: position ? position.y : center.y - height / 2,
+            width,
+            height,
+            text
+        });
+    }
+
+    /**
+     * Draws a frame on the canvas
+     * @param area Where the frame goes, around selected nodes by default, or in the middle of the visible part of the canvas
+     * @returns the frame, or undefined if the change got vetoed
+     */
+    addFrame(label = "", area?: AnnotationArea): Annotation | undefined {
+        return this.create({type: "frame", text: label, ...(area || this.findSelectionArea() || this.getDefaultFrameArea())});
+    }
+
+    /**
+     * Changes the position, size or text of an annotation
+     */
+    update(id: string, changes: Partial<AnnotationArea & { text: string }>): void {
+        const annotations = this.getAnnotations();
+        const annotation  = annotations.find(a => a.id === id);
+
+        if (!annotation) {
+            return;
+        }
+
+        Object.assign(annotation, changes);
+
+        this.commit(AnnotationPlugin.makeChange("annotation-update", annotation), annotations);
+    }
+
+    remove(id: string): void {
+        const annotations = this.getAnnotations();
+        const annotation  = annotations.find(a => a.id === id);
+
+        if (!annotation) {
+            return;
+        }
+
+        if (this.activeID === id) {
+            this.activeID = undefined;
+        }
+
+        this.commit(AnnotationPlugin.makeChange("annotation-delete", annotation), annotations.filter(a => a.id !== id));
+    }
+
+    /**
+     * Opens a field over the annotation in which its text can be changed.
+     * Enter saves the label of a frame, Ctrl+Enter saves a note, and so does clicking away. Escape drops the changes.
+     */
+    edit(id: string): void {
+        const annotation = this.getAnnotations().find(a => a.id === id);
+
+        if (!annotation || !this.workflow.editingEnabled) {
+            return;
+        }
+
+        this.closeEditor(true);
+
+        const isNote = annotation.type === "note";
+        const ns     = "http://www.w3.org/2000/svg";
+
+        this.editor = document.createElementNS(ns, "foreignObject") as SVGForeignObjectElement;
+        this.editor.classList.add(this.css.editor);
+        this.editor.setAttribute("data-no-export", "");
+        this.editor.setAttribute("data-annotation-id", id);
+        this.editor.setAttribute("x", String(annotation.x));
+        this.editor.setAttribute("y", String(isNote ? annotation.y : annotation.y - 28));
+        this.editor.setAttribute("width", String(annotation.width));
+        this.editor.setAttribute("height", String(isNote ? annotation.height : 24));
+
+        const field = document.createElement(isNote ? "textarea" : "input") as HTMLTextAreaElement | HTMLInputElement;
+        field.value = annotation.text;
+        field.setAttribute("aria-label", isNote ? "Note" : "Frame label");
+
+        field.addEventListener("keydown", (ev: KeyboardEvent) => {
+
+            // Keys typed into the field are not meant for plugins that listen for keys on the canvas
+            ev.stopPropagation();
+
+            if (ev.key === "Escape") {
+                this.closeEditor(false);
+            } else if (ev.key === "Enter" && (!isNote || ev.ctrlKey || ev.metaKey)) {
+                ev.preventDefault();
+                this.closeEditor(true);
+            }
+        });
+
+        field.addEventListener("blur", () => this.closeEditor(true));
+
+        this.editor.appendChild(field);
+        this.layer.appendChild(this.editor);
+
+        field.focus();
+        field.select();
+    }
+
+    private create(properties: Partial<Annotation>): Annotation | undefined {
+        const annotations = this.getAnnotations();
+        const annotation  = {id: this.makeID(properties.type, annotations), ...properties} as Annotation;
+
+        if (!this.commit(AnnotationPlugin.makeChange("annotation-create", annotation), annotations.concat(annotation))) {
+            return undefined;
+        }
+
+        return {...annotation};
+    }
+
+    /**
+     * Describes the annotation on the change itself, since listeners can't look it up once it's removed
+     */
+    private static makeChange(type: AnnotationChange["type"], annotation: Annotation): AnnotationChange {
+        return {type, annotationID: annotation.id, annotationType: annotation.type, text: annotation.text};
+    }
+
+    /**
+     * Stores annotations on the model and redraws them
+     * @returns false if the change got vetoed
+     */
+    private commit(change: AnnotationChange, annotations: Annotation[]): boolean {
+        if (!this.workflow.editingEnabled || !this.onBeforeChange(change)) {
+            return false;
+        }
+
+        this.store(annotations);
+        this.onAfterChange(change);
+
+        return true;
+    }
+
+    private store(annotations: Annotation[]): void {
+        const model = this.workflow.model;
+
+        if (!model.customProps) {
+            model.customProps = {};
+        }
+
+        if (annotations.length) {
+            model.customProps[this.storageKey] = annotations;
+        } else {
+            delete model.customProps[this.storageKey];
+        }
+
+        this.render();
+    }
+
+    private closeEditor(save: boolean): void {
+        if (!this.editor) {
+            return;
+        }
+
+        const editor = this.editor;
+        const id     = editor.getAttribute("data-annotation-id");
+        const text   = (editor.firstElementChild as HTMLInputElement).value;
+
+        // Removing the field blurs it, which would close the editor again
+        this.editor = undefined;
+        editor.remove();
+
+        const annotation = this.getAnnotations().find(a => a.id === id);
+
+        if (save && annotation && annotation.text !== text) {
+            this.update(id, {text});
+        }
+    }
+
+    private render(): void {
+        const container = this.workflow.workflow;
+
+        // The canvas gets emptied when a new model is drawn
+        if (!this.layer || !container.contains(this.layer)) {
+            this.layer = document.createElementNS("http://www.w3.org/2000/svg", "g") as SVGGElement;
+            this.layer.classList.add(this.css.layer);
+        }
+
+        // Annotations stay behind edges and nodes
+        if (container.firstChild !== this.layer) {
+            container.insertBefore(this.layer, container.firstChild);
+        }
+
+        for (const el of Array.from(this.layer.querySelectorAll(`.${this.css.annotation}`))) {
+            el.remove();
+        }
+
+        for (const annotation of this.getAnnotations()) {
+            this.layer.insertBefore(TemplateParser.parse(this.makeTemplate(annotation)), this.editor || null);
+        }
+    }
+
+    private makeTemplate(annotation: Annotation): string {
+        const {id, type, x, y, width, height, text} = annotation;
+
+        const isNote  = type === "note";
+        const classes = [
+            this.css.annotation,
+            isNote ? this.css.note : this.css.frame,
+            id === this.activeID ? this.css.active : ""
+        ].join(" ");
+
+        // SVG text doesn't wrap, so notes break lines only where their text does
+        const textTemplate = isNote
+            ? `<text class="${this.css.text}" x="10" y="10">${text.split("\n").map((line, index) =>
+                `<tspan x="10" dy="${index === 0 ? "1em" : "1.3em"}">${HtmlUtils.escapeHTML(line)}</tspan>`).join("")}</text>`
+            : `<text class="${this.css.text}" x="0" y="-8">${HtmlUtils.escapeHTML(text)}</text>`;
+
+        return `
+            <g class="${classes}" data-annotation-id="${HtmlUtils.escapeHTML(id)}" transform="matrix(1, 0, 0, 1, ${x}, ${y})">
+                <rect class="${this.css.body}" width="${width}" height="${height}" rx="4" ry="4"></rect>
+                ${textTemplate}
+                <rect class="${this.css.handle}" data-no-export x="${width - 10}" y="${height - 10}" width="10" height="10"></rect>
+            </g>
+        `;
+    }
+
+    private attachDrag(): void {
+        this.detachDrag();
+
+        this.detachDragFn = this.workflow.domEvents.drag(
+            `.${this.css.annotation}`,
+            this.onDragMove.bind(this),
+            this.onDragStart.bind(this),
+            this.onDragEnd.bind(this)
+        );
+    }
+
+    private detachDrag(): void {
+        if (typeof this.detachDragFn === "function") {
+            this.detachDragFn();
+        }
+
+        this.detachDragFn = undefined;
+    }
+
+    private onDragStart(ev: MouseEvent, target: SVGGElement): void {
+        const id    = target.getAttribute("data-annotation-id");
+        const start = this.getAnnotations().find(a => a.id === id);
+
+        if (!start) {
+            return;
+        }
+
+        const change = AnnotationPlugin.makeChange("annotation-update", start);
+
+        if (!this.onBeforeChange(change)) {
+            return;
+        }
+
+        const mode = (ev.target as Element).classList.contains(this.css.handle) ? "resize" : "move";
+
+        this.closeEditor(true);
+        this.drag = {mode, start, current: start, change};
+        this.setActive(id);
+    }
+
+    private onDragMove(dx: number, dy: number): void {
+        if (!this.drag) {
+            return;
+        }
+
+        const {mode, start} = this.drag;
+        const {minSize}     = AnnotationPlugin;
+        const scale         = this.workflow.scale;
+
+        this.drag.current = mode === "move"
+            ? {...start, x: start.x + dx / scale, y: start.y + dy / scale}
+            : {
+                ...start,
+                width: Math.max(start.width + dx / scale, minSize.width),
+                height: Math.max(start.height + dy / scale, minSize.height)
+            };
+
+        const el = this.layer.querySelector(`.${this.css.annotation}[data-annotation-id="${start.id}"]`);
+        el.parentNode.replaceChild(TemplateParser.parse(this.makeTemplate(this.drag.current)), el);
+    }
+
+    private onDragEnd(): void {
+        if (!this.drag) {
+            return;
+        }
+
+        const {current, change} = this.drag;
+
+        this.drag = undefined;
+
+        this.store(this.getAnnotations().map(a => a.id === current.id ? current : a));
+        this.onAfterChange(change);
+    }
+
+    private onClick(ev: MouseEvent): void {
+        const el = this.findAnnotationElement(ev.target as Element);
+
+        this.setActive(el ? el.getAttribute("data-annotation-id") : undefined);
+    }
+
+    private onDoubleClick(ev: MouseEvent): void {
+        const el = this.findAnnotationElement(ev.target as Element);
+
+        if (el) {
+            ev.preventDefault();
+            this.edit(el.getAttribute("data-annotation-id"));
+        }
+    }
+
+    private onKeyDown(ev: KeyboardEvent): void {
+        const isDelete = ev.key === "Delete" || ev.key === "Backspace";
+
+        if (!isDelete || !this.activeID || this.editor || !this.svg.contains(ev.target as Node)) {
+            return;
+        }
+
+        ev.preventDefault();
+        this.remove(this.activeID);
+    }
+
+    private setActive(id?: string): void {
+        this.activeID = id;
+
+        for (const el of Array.from(this.layer.querySelectorAll(`.${this.css.annotation}`))) {
+            el.classList.toggle(this.css.active, el.getAttribute("data-annotation-id") === id);
+        }
+    }
+
+    private findAnnotationElement(target: Element): SVGGElement | undefined {
+        const el = this.workflow.findParent(target, this.css.annotation);
+
+        return el && this.layer && this.layer.contains(el) ? el : undefined;
+    }
+
+    /**
+     * Makes IDs like “note_1” and “frame_2”, which read well in the CWL document
+     */
+    private makeID(type: string, annotations: Annotation[]): string {
+        let index = annotations.length + 1;
+
+        while (annotations.some(a => a.id === `${type}_${index}`)) {
+            index++;
+        }
+
+        return `${type}_${index}`;
+    }
+
+    private getViewportCenter(): { x: number, y: number } {
+        const rect = this.svg.getBoundingClientRect();
+
+        return this.workflow.transformScreenCTMtoCanvas(rect.left + rect.width / 2, rect.top + rect.height / 2);
+    }
+
+    private getDefaultFrameArea(): AnnotationArea {
+        const {width, height} = AnnotationPlugin.frameSize;
+        const center          = this.getViewportCenter();
+
+        return {x: center.x - width / 2, y: center.y - height / 2, width, height};
+    }
+
+    /**
+     * Finds the area that selected nodes take up, along with their labels
+     */
+    private findSelectionArea(): AnnotationArea | undefined {
+        const selectionPlugin = this.workflow.getPlugin(SelectionPlugin);
+        const selection       = selectionPlugin ? selectionPlugin.getSelection() : new Map();
+
+        let left   = Infinity;
+        let top    = Infinity;
+        let right  = -Infinity;
+        let bottom = -Infinity;
+
+        selection.forEach((type, connectionID) => {
+            const el = this.workflow.workflow.querySelector(`.node[data-connection-id="${connectionID}"]`) as SVGGElement;
+
+            if (type !== "node" || !el) {
+                return;
+            }
+
+            const matrix = el.transform.baseVal.getItem(0).matrix;
+            const box    = el.getBBox();
+
+            left   = Math.min(left, matrix.e + box.x);
+            top    = Math.min(top, matrix.f + box.y);
+            right  = Math.max(right, matrix.e + box.x + box.width);
+            bottom = Math.max(bottom, matrix.f + box.y + box.height);
+        });
+
+        if (left === Infinity) {
+            return undefined;
+        }
+
+        const padding = this.framePadding;
+
+        return {
+            x: left - padding,
+            y: top - padding,
+            width: right - left + padding * 2,
+            height: bottom - top + padding * 2
+        };
+    }
+}
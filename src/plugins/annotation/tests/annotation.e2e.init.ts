@@ -0,0 +1,21 @@
+import "../../../assets/styles/theme";
+import "../theme";
+import {WorkflowFactory}     from "cwlts/models";
+import {SvgDumper, Workflow} from "../../../";
+import {AnnotationPlugin}    from "../annotation";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const annotations = new AnnotationPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [annotations]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, annotations, SvgDumper});
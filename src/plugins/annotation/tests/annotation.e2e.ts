@@ -0,0 +1,66 @@
+import {browser, by, element} from "protractor";
+import {serveCompiled}        from "../../../utils/test-utils";
+
+describe("Annotations", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("stores notes and frames in the workflow, so they are saved with it", async function () {
+
+        const serialized = await browser.executeScript(() => {
+            const {wf, annotations} = window as any;
+
+            annotations.addNote("replace with GATK4", {x: 0, y: 0});
+            annotations.addFrame("QC", {x: -50, y: -50, width: 300, height: 200});
+
+            return wf.model.serialize()["sbg:annotations"];
+        }) as any[];
+
+        expect(serialized.map(annotation => annotation.type)).toEqual(["note", "frame"]);
+        expect(serialized.map(annotation => annotation.text)).toEqual(["replace with GATK4", "QC"]);
+
+        expect(await element.all(by.css(".__annotation-plugin-annotation")).count()).toBe(2);
+    });
+
+    it("updates and removes annotations", async function () {
+
+        const serialized = await browser.executeScript(() => {
+            const {wf, annotations} = window as any;
+
+            const note  = annotations.addNote("replace with GATK4", {x: 0, y: 0});
+            const frame = annotations.addFrame("QC", {x: -50, y: -50, width: 300, height: 200});
+
+            annotations.update(note.id, {text: "done", x: 20});
+            annotations.remove(frame.id);
+
+            return wf.model.serialize()["sbg:annotations"];
+        }) as any[];
+
+        expect(serialized.length).toBe(1);
+        expect(serialized[0].text).toBe("done");
+        expect(serialized[0].x).toBe(20);
+    });
+
+    it("shows up in exported pictures, without editing handles", async function () {
+
+        const dump = await browser.executeScript(() => {
+            const {annotations, SvgDumper} = window as any;
+
+            annotations.addNote("done", {x: 0, y: 0});
+
+            return new SvgDumper(document.getElementById("svg")).dump();
+        }) as string;
+
+        expect(dump).toContain("done");
+        expect(dump).not.toContain("__annotation-plugin-handle");
+    });
+});
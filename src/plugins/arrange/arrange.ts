@@ -1,28 +1,71 @@
-import {GraphNode}                                                  from '../../graph/graph-node';
+import {ColumnLayout, LayoutNode, NodePositionUpdates}              from '../../layout/column-layout';
+import {LayeredLayout}                                              from '../../layout/layered-layout';
+import {PlacedNode, SubgraphPlacement}                              from '../../layout/subgraph-placement';
+import {ArrangeLayout}                                              from '../../layout/graph-layout';
 import {Workflow}                                                   from '../../graph/workflow';
 import {SVGUtils}                                                   from '../../utils/svg-utils';
-import {GraphChange, SVGPlugin}                                     from '../plugin';
+import {GraphNode}                                                  from '../../graph/graph-node';
+import {GraphOrientation}                                           from '../../graph/orientation';
+import {NodePlacement}                                              from '../../graph/placement';
+import {SelectionPlugin}                                            from '../selection/selection';
+import {ArrangeChange, GraphChange, SVGPlugin}                      from '../plugin';
 import {StepModel, WorkflowStepInputModel, WorkflowStepOutputModel} from "cwlts/models";
 
+export interface SVGArrangePluginParams {
+    /** Algorithm that distributes connected nodes, the column layout by default */
+    layout?: ArrangeLayout,
+
+    /** How long nodes take to move from their old positions to the new ones, in milliseconds, 0 moves them at once */
+    animationDuration?: number,
+
+    /** Whether to fit the arranged graph into the viewport, or to keep the current zoom and pan */
+    viewport?: "fit" | "keep"
+}
+
+export interface SVGArrangeOptions {
+    /**
+     * Connection IDs of nodes to arrange, all nodes by default.
+     * Other nodes stay where they are, and the arranged ones get placed next to the nodes they connect to.
+     */
+    nodeIDs?: string[]
+}
+
 export class SVGArrangePlugin implements SVGPlugin {
+
+    /** Key in the custom properties of a node that keeps it from being moved by arrangement */
+    static pinnedKey = "sbg:pinned";
+
+    private layout: ArrangeLayout = "columns";
+    private animationDuration     = 0;
+    private viewport              = "fit" as "fit" | "keep";
+
+    private animationFrame: number;
+
+    /** Finishes the arrangement that nodes are still moving towards */
+    private finishMoving: () => void;
+
     private workflow: Workflow;
     private svgRoot: SVGSVGElement;
-    private onBeforeChange: () => void;
-    private onAfterChange: (updates: NodePositionUpdates) => void;
+    private onBeforeChange: (change: ArrangeChange) => boolean;
+    private onAfterChange: (change: ArrangeChange) => void;
     private triggerAfterRender: () => void;
 
+    constructor(parameters: SVGArrangePluginParams = {}) {
+        Object.assign(this, parameters);
+    }
+
     registerWorkflow(workflow: Workflow): void {
         this.workflow = workflow;
         this.svgRoot  = workflow.svgRoot;
     }
 
 
-    registerOnBeforeChange(fn: (change: GraphChange) => void): void {
-        this.onBeforeChange = () => fn({type: "arrange"});
+    registerOnBeforeChange(fn: (change: GraphChange) => boolean): void {
+        this.onBeforeChange = fn;
     }
 
     registerOnAfterChange(fn: (change: GraphChange) => void): void {
-        this.onAfterChange = () => fn({type: "arrange"});
+        this.onAfterChange = fn;
     }
 
     registerOnAfterRender(fn: (change: GraphChange) => void): void {
@@ -39,304 +82,273 @@ export class SVGArrangePlugin implements SVGPlugin {
             model.outputs || []
         ) as Array<WorkflowStepInputModel | WorkflowStepOutputModel | StepModel>;
 
-        for (let node of drawables) {
-
-            if (node.isVisible) {
+        const visible = drawables.filter(node => node.isVisible);
+        const missing = visible
+            .filter(node => isNaN(parseInt(node.customProps["sbg:x"])))
+            .map(node => node.connectionId);
 
-                const missingCoordinate = isNaN(parseInt(node.customProps["sbg:x"]));
-
-                if (missingCoordinate) {
-                    this.arrange();
-                    return;
-                }
-            }
+        if (missing.length === 0) {
+            return;
         }
-    }
-
-    arrange() {
-
-        this.onBeforeChange();
-
-        // We need to reset all transformations on the workflow for now.
-        // @TODO Make arranging work without this
-        this.workflow.resetTransform();
-
-        // We need main graph and dangling nodes separately, they will be distributed differently
-        const {mainGraph, danglingNodes} = this.makeNodeGraphs();
 
-        // Create an array of columns, each containing a list of NodeIOs
-        const columns = this.distributeNodesIntoColumns(mainGraph);
+        // A graph that has no positions at all gets laid out from scratch, new nodes of a laid out graph are fit into it
+        if (missing.length === visible.length) {
+            this.arrange();
+            return;
+        }
 
-        // Get total area in which we will fit the graph, and per-column dimensions
-        const {distributionArea, columnDimensions} = this.calculateColumnSizes(columns);
+        const change: ArrangeChange = {
+            type: "arrange",
+            nodeIDs: missing,
+            positions: missing.map(id => ({id, before: undefined}))
+        };
 
-        // This will be the vertical middle around which the graph should be centered
-        let verticalBaseline = distributionArea.height / 2;
+        if (!this.onBeforeChange(change)) {
+            return;
+        }
 
-        let xOffset    = 0;
-        let maxYOffset = 0;
+        // Each placed node is in the way of the next one, so they don't end up on top of each other
+        const positions = missing.map(id => ({id, before: undefined, after: NodePlacement.place(this.workflow, id)}));
 
-        // Here we will store positions for each node that is to be updated.
-        // This should then be emitted as an afterChange event.
-        const nodePositionUpdates = {} as NodePositionUpdates;
+        this.onAfterChange({...change, positions});
+        this.triggerAfterRender();
+    }
 
-        columns.forEach((column, index) => {
-            const colSize = columnDimensions[index];
-            let yOffset   = verticalBaseline - (colSize.height / 2) - column[0].rect.height / 2;
+    /**
+     * Lays out nodes, leaving pinned ones where they are
+     * @returns positions of nodes that got moved, indexed by connection ID
+     */
+    arrange(options: SVGArrangeOptions = {}): NodePositionUpdates {
 
-            column.forEach(node => {
-                yOffset += node.rect.height / 2;
+        const nodeElements = this.indexNodesByID();
+        const allIDs       = Object.keys(nodeElements);
+        const nodeIDs      = (options.nodeIDs || allIDs).filter(id => nodeElements[id] && !this.isPinned(id));
 
-                const matrix = SVGUtils.createMatrix().translate(xOffset, yOffset);
+        if (nodeIDs.length === 0) {
+            return {};
+        }
 
-                yOffset += node.rect.height / 2;
+        const positionsBefore = nodeIDs.map(id => ({
+            id,
+            before: GraphNode.getModelPosition(this.workflow.model.findById(id))
+        }));
 
-                if (yOffset > maxYOffset) {
-                    maxYOffset = yOffset;
-                }
+        // A previous arrangement might still be moving nodes, it gets reported before this one starts
+        this.stopMoving();
 
-                node.el.setAttribute("transform", SVGUtils.matrixToTransformAttr(matrix));
+        if (!this.onBeforeChange({type: "arrange", nodeIDs, positions: positionsBefore})) {
+            return {};
+        }
 
-                nodePositionUpdates[node.connectionID] = {
-                    x: matrix.e,
-                    y: matrix.f
-                };
+        // Labels are scaled against the zoom to stay readable, so they are measured at their natural size,
+        // which makes the arrangement the same whatever the zoom is
+        NodePlacement.setLabelScale(this.workflow, 1);
 
-            });
+        // We need main graph and dangling nodes separately, they will be distributed differently
+        const {mainGraph, danglingNodes, predecessors, successors} = this.makeNodeGraphs(nodeIDs);
 
-            xOffset += colSize.width;
-        });
+        // Layouts flow from left to right, so dimensions are turned into that direction and positions are turned back
+        const orientation = this.workflow.orientation;
 
-        let danglingNodeKeys = Object.keys(danglingNodes).sort((a, b) => {
+        // Dangling nodes are distributed by the dimensions of their core circle, without labels
+        const danglingNodeRects = {};
+        for (const connectionID in danglingNodes) {
+            danglingNodeRects[connectionID] = NodePlacement.measure(this.workflow, danglingNodes[connectionID].firstElementChild);
+        }
 
-            const aIsInput  = a.startsWith("out/");
-            const aIsOutput = a.startsWith("in/");
-            const bIsInput  = b.startsWith("out/");
-            const bIsOutput = b.startsWith("in/");
+        // Nodes that stay where they are have to be kept clear of
+        const fixedNodes = {} as { [connectionID: string]: PlacedNode };
+        if (nodeIDs.length < allIDs.length) {
+            for (const connectionID of allIDs.filter(id => nodeIDs.indexOf(id) === -1)) {
+                fixedNodes[connectionID] = NodePlacement.measurePlaced(this.workflow, nodeElements[connectionID]);
+            }
+        }
 
-            const lowerA = a.toLowerCase();
-            const lowerB = b.toLowerCase();
+        NodePlacement.setLabelScale(this.workflow, this.workflow.labelScale);
 
-            if (aIsOutput) {
+        let laidOut = this.layout === "layered"
+            ? LayeredLayout.arrange(mainGraph, danglingNodeRects)
+            : ColumnLayout.arrange(mainGraph, danglingNodeRects);
 
-                if (bIsOutput) {
-                    return lowerB.localeCompare(lowerA);
-                }
-                else {
-                    return 1;
-                }
-            } else if (aIsInput) {
-                if (bIsOutput) {
-                    return -1;
-                }
-                if (bIsInput) {
-                    return lowerB.localeCompare(lowerA);
-                }
-                else {
-                    return 1;
-                }
-            } else {
-                if (!bIsOutput && !bIsInput) {
-                    return lowerB.localeCompare(lowerA);
-                }
-                else {
-                    return -1;
-                }
+        if (Object.keys(fixedNodes).length) {
+            const rects = {...danglingNodeRects};
+            for (const nodeID in mainGraph) {
+                rects[mainGraph[nodeID].connectionID] = mainGraph[nodeID].rect;
             }
-        });
 
-        const danglingNodeMarginOffset = 30;
-        const danglingNodeSideLength   = GraphNode.radius * 5;
+            // Without neighbours, the block stays around where its nodes already are
+            const current = nodeIDs.map(id => NodePlacement.measurePlaced(this.workflow, nodeElements[id]));
+            const center  = {
+                x: current.reduce((sum, node) => sum + node.x, 0) / current.length,
+                y: current.reduce((sum, node) => sum + node.y, 0) / current.length
+            };
+
+            laidOut = SubgraphPlacement.place(
+                laidOut,
+                rects,
+                Object.keys(fixedNodes).map(id => fixedNodes[id]),
+                predecessors.map(id => fixedNodes[id]),
+                successors.map(id => fixedNodes[id]),
+                center
+            );
+        }
 
-        let maxNodeHeightInRow = 0;
-        let row                = 0;
-        let indexWidthMap      = new Map<number, number>();
-        let rowMaxHeightMap    = new Map<number, number>();
+        // Here we will store positions for each node that is to be updated.
+        // This should then be emitted as an afterChange event.
+        const nodePositionUpdates = {} as NodePositionUpdates;
+        for (const connectionID in laidOut) {
+            nodePositionUpdates[connectionID] = GraphOrientation.fromLeftToRight(laidOut[connectionID], orientation);
+        }
 
-        xOffset = 0;
+        // Positions need to be on the model before anyone gets notified about the change
+        for (const id in nodePositionUpdates) {
+            const pos       = nodePositionUpdates[id];
+            const nodeModel = this.workflow.model.findById(id);
+            if (!nodeModel.customProps) {
+                nodeModel.customProps = {};
+            }
 
-        let danglingRowAreaWidth = Math.max(distributionArea.width, danglingNodeSideLength * 3);
-        danglingNodeKeys.forEach((connectionID, index) => {
-            const el   = danglingNodes[connectionID] as SVGGElement;
-            const rect = el.firstElementChild.getBoundingClientRect();
-            indexWidthMap.set(index, rect.width);
+            Object.assign(nodeModel.customProps, {
+                "sbg:x": pos.x,
+                "sbg:y": pos.y
+            });
+        }
 
-            if (xOffset === 0) {
-                xOffset -= rect.width / 2;
-            }
-            if (rect.height > maxNodeHeightInRow) {
-                maxNodeHeightInRow = rect.height;
+        // The model already has the new positions, but listeners get to see the canvas once nodes have reached them
+        this.moveNodes(nodeElements, nodePositionUpdates, () => {
+            if (this.viewport === "fit") {
+                this.workflow.fitToViewport();
             }
-            xOffset += rect.width + danglingNodeMarginOffset + Math.max(150 - rect.width, 0);
 
-            if (xOffset >= danglingRowAreaWidth && index < danglingNodeKeys.length - 1) {
-                rowMaxHeightMap.set(row++, maxNodeHeightInRow);
-                maxNodeHeightInRow = 0;
-                xOffset            = 0;
-            }
-        });
+            this.onAfterChange({
+                type: "arrange",
+                nodeIDs,
+                positions: positionsBefore.map(({id, before}) => ({id, before, after: nodePositionUpdates[id] || before}))
+            });
 
-        rowMaxHeightMap.set(row, maxNodeHeightInRow);
-        let colYOffset = maxYOffset;
-        xOffset        = 0;
-        row            = 0;
-
-        danglingNodeKeys.forEach((connectionID, index) => {
-            const el        = danglingNodes[connectionID] as SVGGElement;
-            const width     = indexWidthMap.get(index);
-            const rowHeight = rowMaxHeightMap.get(row);
-            let left        = xOffset + width / 2;
-            let top         = colYOffset
-                + danglingNodeMarginOffset
-                + Math.ceil(rowHeight / 2)
-                + ((xOffset === 0 ? 0 : left) / danglingRowAreaWidth) * danglingNodeSideLength;
-
-            if (xOffset === 0) {
-                left -= width / 2;
-                xOffset -= width / 2;
-            }
-            xOffset += width + danglingNodeMarginOffset + Math.max(150 - width, 0);
+            this.triggerAfterRender();
+        });
 
-            const matrix = SVGUtils.createMatrix().translate(left, top);
-            el.setAttribute("transform", SVGUtils.matrixToTransformAttr(matrix));
+        return nodePositionUpdates;
 
-            nodePositionUpdates[connectionID] = {x: matrix.e, y: matrix.f};
+    }
 
-            if (xOffset >= danglingRowAreaWidth) {
-                colYOffset += Math.ceil(rowHeight) + danglingNodeMarginOffset;
-                xOffset            = 0;
-                maxNodeHeightInRow = 0;
-                row++
+    /**
+     * Lays out selected nodes, see {@link arrange}
+     */
+    arrangeSelection(): NodePositionUpdates {
+        const selectionPlugin = this.workflow.getPlugin(SelectionPlugin);
+        const selection       = selectionPlugin ? selectionPlugin.getSelection() : new Map();
+
+        const nodeIDs = [];
+        selection.forEach((type, connectionID) => {
+            if (type === "node") {
+                nodeIDs.push(connectionID);
             }
         });
 
-        this.workflow.redrawEdges();
-        this.workflow.fitToViewport();
+        return this.arrange({nodeIDs});
+    }
 
+    /**
+     * Pins nodes to their current positions, so that arrangement leaves them alone, or unpins them.
+     * The flag is kept in custom properties of the node, so it gets saved along with the workflow.
+     */
+    setPinned(connectionIDs: string[], pinned = true): void {
+        for (const connectionID of connectionIDs) {
+            const nodeModel = this.workflow.model.findById(connectionID);
 
-        this.onAfterChange(nodePositionUpdates);
-        this.triggerAfterRender();
+            if (!nodeModel) {
+                continue;
+            }
 
-        for (const id in nodePositionUpdates) {
-            const pos       = nodePositionUpdates[id];
-            const nodeModel = this.workflow.model.findById(id);
             if (!nodeModel.customProps) {
                 nodeModel.customProps = {};
             }
 
-            Object.assign(nodeModel.customProps, {
-                "sbg:x": pos.x,
-                "sbg:y": pos.y
-            });
+            if (pinned) {
+                nodeModel.customProps[SVGArrangePlugin.pinnedKey] = true;
+            } else {
+                delete nodeModel.customProps[SVGArrangePlugin.pinnedKey];
+            }
         }
+    }
 
-        return nodePositionUpdates;
+    isPinned(connectionID: string): boolean {
+        const nodeModel = this.workflow.model.findById(connectionID);
+
+        return !!(nodeModel && nodeModel.customProps && nodeModel.customProps[SVGArrangePlugin.pinnedKey]);
+    }
 
+    destroy(): void {
+        window.cancelAnimationFrame(this.animationFrame);
+        this.finishMoving = undefined;
     }
 
     /**
-     * Calculates column dimensions and total graph area
-     * @param {NodeIO[][]} columns
+     * Moves nodes to their new positions, gradually if there is an animation duration, and redraws edges along the way
+     * @param done Called once nodes have reached their positions
      */
-    private calculateColumnSizes(columns: NodeIO[][]): {
-        columnDimensions: {
-            width: number,
-            height: number
-        }[],
-        distributionArea: {
-            width: number,
-            height: number
-        }
-    } {
-        const distributionArea = {width: 0, height: 0};
-        const columnDimensions = [];
+    private moveNodes(nodeElements: { [connectionID: string]: SVGGElement }, positions: NodePositionUpdates, done: () => void): void {
 
-        for (let i = 1; i < columns.length; i++) {
+        const from = {} as NodePositionUpdates;
+        for (const connectionID in positions) {
+            const matrix       = nodeElements[connectionID].transform.baseVal.getItem(0).matrix;
+            from[connectionID] = {x: matrix.e, y: matrix.f};
+        }
 
-            let width  = 0;
-            let height = 0;
+        const placeNodes = (progress: number) => {
+            for (const connectionID in positions) {
+                const start = from[connectionID];
+                const end   = positions[connectionID];
+                const x     = start.x + (end.x - start.x) * progress;
+                const y     = start.y + (end.y - start.y) * progress;
 
-            for (let j = 0; j < columns[i].length; j++) {
-                const entry = columns[i][j];
+                const matrix = SVGUtils.createMatrix().translate(x, y);
 
-                height += entry.rect.height;
+                nodeElements[connectionID].setAttribute("transform", SVGUtils.matrixToTransformAttr(matrix));
+            }
 
-                if (width < entry.rect.width) {
-                    width = entry.rect.width;
-                }
+            this.workflow.redrawEdges();
+        };
 
-            }
+        if (this.animationDuration <= 0) {
+            placeNodes(1);
+            done();
+            return;
+        }
 
-            columnDimensions[i] = {height, width};
+        const startTime = performance.now();
 
-            distributionArea.width += width;
-            if (height > distributionArea.height) {
-                distributionArea.height = height;
-            }
+        this.finishMoving = () => {
+            this.finishMoving = undefined;
+            placeNodes(1);
+            done();
+        };
 
-        }
+        const animate = (time: number) => {
+            const progress = Math.min((time - startTime) / this.animationDuration, 1);
 
-        return {
-            columnDimensions,
-            distributionArea
+            if (progress < 1) {
+                placeNodes(progress < .5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2);
+                this.animationFrame = window.requestAnimationFrame(animate);
+            } else {
+                this.finishMoving();
+            }
         };
 
+        this.animationFrame = window.requestAnimationFrame(animate);
     }
 
     /**
-     * Maps node's connectionID to a 1-indexed column number
+     * Puts nodes that are still moving right where they are going, and reports the arrangement
      */
-    private distributeNodesIntoColumns(graph: NodeMap): Array<NodeIO[]> {
-        const idToZoneMap   = {};
-        const sortedNodeIDs = Object.keys(graph).sort((a, b) => b.localeCompare(a));
-        const zones         = [];
-
-        for (let i = 0; i < sortedNodeIDs.length; i++) {
-            const nodeID = sortedNodeIDs[i];
-            const node   = graph[nodeID];
-
-            // For outputs and steps, we calculate the zone as a longest path you can take to them
-            if (node.type !== "input") {
-                idToZoneMap[nodeID] = this.traceLongestNodePathLength(node, graph);
-            } else {
-                //
-                // Longest trace methods would put all inputs in the first column,
-                // but we want it just behind the leftmost step that it is connected to
-                // So instead of:
-                //
-                // (input)<----------------->(step)---
-                // (input)<---------->(step)----------
-                //
-                // It should be:
-                //
-                // ---------------(input)<--->(step)---
-                // --------(input)<-->(step)-----------
-                //
-
-                let closestNodeZone = Infinity;
-                for (let i = 0; i < node.outputs.length; i++) {
-                    const successorNodeZone = idToZoneMap[node.outputs[i]];
-
-                    if (successorNodeZone < closestNodeZone) {
-                        closestNodeZone = successorNodeZone;
-                    }
-                }
-                if (closestNodeZone === Infinity) {
-                    idToZoneMap[nodeID] = 1;
-                } else {
-                    idToZoneMap[nodeID] = closestNodeZone - 1;
-                }
+    private stopMoving(): void {
+        window.cancelAnimationFrame(this.animationFrame);
 
-            }
-
-            const zone = idToZoneMap[nodeID];
-            zones[zone] || (zones[zone] = []);
-
-            zones[zone].push(graph[nodeID]);
+        if (this.finishMoving) {
+            this.finishMoving();
         }
-
-        return zones;
-
     }
 
     /**
@@ -354,39 +366,25 @@ export class SVGArrangePlugin implements SVGPlugin {
     }
 
     /**
-     * Finds length of the longest possible path from the graph root to a node.
-     * Lengths are 1-indexed. When a node has no predecessors, it will have length of 1.
+     * @param included Connection IDs of nodes to lay out, edges to other nodes only tell where those nodes are
      */
-    private traceLongestNodePathLength(node: NodeIO, nodeGraph, visited = new Set<NodeIO>()): number {
-
-        visited.add(node);
-
-        if (node.inputs.length === 0) {
-            return 1;
-        }
-
-        const inputPathLengths = [];
-
-        for (let i = 0; i < node.inputs.length; i++) {
-            const el = nodeGraph[node.inputs[i]];
-
-            if (visited.has(el)) {
-                continue;
-            }
-
-            inputPathLengths.push(this.traceLongestNodePathLength(el, nodeGraph, visited));
-        }
-
-        return Math.max(...inputPathLengths) + 1;
-    }
-
-    private makeNodeGraphs(): {
+    private makeNodeGraphs(included: string[]): {
         mainGraph: NodeMap,
-        danglingNodes: { [nodeID: string]: SVGGElement }
+        danglingNodes: { [nodeID: string]: SVGGElement },
+        predecessors: string[],
+        successors: string[]
     } {
 
         // We need all nodes in order to find the dangling ones, those will be sorted separately
-        const allNodes = this.indexNodesByID();
+        const allNodes = {};
+        const indexed  = this.indexNodesByID();
+        for (const connectionID of included) {
+            allNodes[connectionID] = indexed[connectionID];
+        }
+
+        // Connection IDs of nodes that are left out, but have edges that lead into included nodes or out of them
+        const predecessors = [];
+        const successors   = [];
 
         // Make a graph representation where you can trace inputs and outputs from/to connection ids
         const nodeGraph = {} as NodeMap;
@@ -424,6 +422,19 @@ export class SVGArrangePlugin implements SVGPlugin {
             const sourceNodeConnectionID      = sourceNode.getAttribute("data-connection-id");
             const destinationNodeConnectionID = destinationNode.getAttribute("data-connection-id");
 
+            const isSourceIncluded      = included.indexOf(sourceNodeConnectionID) !== -1;
+            const isDestinationIncluded = included.indexOf(destinationNodeConnectionID) !== -1;
+
+            if (!isSourceIncluded || !isDestinationIncluded) {
+                if (isDestinationIncluded && predecessors.indexOf(sourceNodeConnectionID) === -1) {
+                    predecessors.push(sourceNodeConnectionID);
+                } else if (isSourceIncluded && successors.indexOf(destinationNodeConnectionID) === -1) {
+                    successors.push(destinationNodeConnectionID);
+                }
+
+                continue;
+            }
+
             // Source and destination of this edge are obviously not dangling, so we can remove them
             // from the set of potentially dangling nodes
             delete allNodes[sourceNodeConnectionID];
@@ -436,7 +447,7 @@ export class SVGArrangePlugin implements SVGPlugin {
                 type: sourceType,
                 connectionID: sourceNodeConnectionID,
                 el: sourceNode,
-                rect: sourceNode.getBoundingClientRect()
+                rect: NodePlacement.measure(this.workflow, sourceNode)
             }));
 
             // Ensure that the source node has its entry in the node graph
@@ -446,7 +457,7 @@ export class SVGArrangePlugin implements SVGPlugin {
                 type: destinationType,
                 connectionID: destinationNodeConnectionID,
                 el: destinationNode,
-                rect: destinationNode.getBoundingClientRect()
+                rect: NodePlacement.measure(this.workflow, destinationNode)
             }));
 
             nodeGraph[sourceNodeID].outputs.push(destinationNodeID);
@@ -455,20 +466,17 @@ export class SVGArrangePlugin implements SVGPlugin {
 
         return {
             mainGraph: nodeGraph,
-            danglingNodes: allNodes
+            danglingNodes: allNodes,
+            predecessors,
+            successors
         };
     }
 }
 
 
-export type NodeIO = {
-    inputs: string[],
-    outputs: string[],
-    connectionID: string,
-    el: SVGGElement,
-    rect: ClientRect,
-    type: "step" | "input" | "output" | string
+export type NodeIO = LayoutNode & {
+    el: SVGGElement
 };
 export type NodeMap = { [connectionID: string]: NodeIO }
 
-export type NodePositionUpdates = { [connectionID: string]: { x: number, y: number } };
\ No newline at end of file
+export {NodePositionUpdates};
\ No newline at end of file
@@ -0,0 +1,21 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}           from "cwlts/models";
+import {SelectionPlugin, Workflow} from "../../../";
+import {SVGArrangePlugin}          from "../arrange";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const arrange   = new SVGArrangePlugin({viewport: "keep"});
+const selection = new SelectionPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [arrange, selection]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, arrange, selection});
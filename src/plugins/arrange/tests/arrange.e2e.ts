@@ -0,0 +1,177 @@
+import {browser}       from "protractor";
+import {serveCompiled} from "../../../utils/test-utils";
+
+describe("Arrange", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("arranges only selected nodes, leaving the others where they are", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf, arrange, selection} = window as any;
+            const position                 = id => {
+                const {customProps} = wf.model.findById(id);
+                return {x: customProps["sbg:x"], y: customProps["sbg:y"]};
+            };
+
+            const before = {input: position("out/message/message"), output: position("in/printed/printed")};
+
+            selection.getSelection().set("print", "node");
+            selection.getSelection().set("idle", "node");
+
+            const updates = arrange.arrangeSelection();
+
+            return {
+                before,
+                after: {input: position("out/message/message"), output: position("in/printed/printed")},
+                arranged: Object.keys(updates).sort()
+            };
+        }) as any;
+
+        expect(result.arranged).toEqual(["idle", "print"]);
+        expect(result.after).toEqual(result.before);
+    });
+
+    it("leaves pinned nodes where they are, until they get unpinned", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf, arrange} = window as any;
+            const print         = wf.model.findById("print");
+
+            arrange.setPinned(["print"]);
+
+            const pinned  = arrange.isPinned("print");
+            const stored  = print.customProps["sbg:pinned"];
+            const updates = arrange.arrange();
+
+            arrange.setPinned(["print"], false);
+
+            return {pinned, stored, moved: Object.keys(updates), unpinned: !arrange.isPinned("print")};
+        }) as any;
+
+        expect(result.pinned).toBe(true);
+        expect(result.stored).toBe(true);
+        expect(result.moved).not.toContain("print");
+        expect(result.moved.length).toBeGreaterThan(0);
+        expect(result.unpinned).toBe(true);
+    });
+
+    it("keeps the zoom and pan when asked to", async function () {
+
+        const result = await browser.executeScript(() => {
+            const {wf, arrange} = window as any;
+            const readViewport  = () => {
+                const matrix = wf.workflow.transform.baseVal.getItem(0).matrix;
+                return {scale: wf.scale, a: matrix.a, d: matrix.d, e: matrix.e, f: matrix.f};
+            };
+
+            wf.scale = wf.scale * 1.5;
+
+            const matrix = wf.workflow.transform.baseVal.getItem(0).matrix;
+            matrix.e += 40;
+            matrix.f -= 25;
+
+            const before  = readViewport();
+            const updates = arrange.arrange();
+
+            return {before, after: readViewport(), arranged: Object.keys(updates).length};
+        }) as any;
+
+        expect(result.arranged).toBeGreaterThan(0);
+        expect(result.after).toEqual(result.before);
+    });
+
+    it("reports the arrangement once nodes have reached their positions, which are the same with or without animation", async function () {
+
+        const result = await browser.executeAsyncScript((done) => {
+            const {wf, arrange} = window as any;
+            const readPositions = () => {
+                const positions = {};
+
+                Array.prototype.slice.call(document.querySelectorAll(".node")).forEach(node => {
+                    const matrix = node.transform.baseVal.getItem(0).matrix;
+                    positions[node.getAttribute("data-connection-id")] = {x: matrix.e, y: matrix.f};
+                });
+
+                return positions;
+            };
+
+            const initial = {};
+            Object.keys(readPositions()).forEach(id => {
+                const {customProps} = wf.model.findById(id);
+                initial[id]         = {x: customProps["sbg:x"], y: customProps["sbg:y"]};
+            });
+
+            const instant          = arrange.arrange();
+            const instantPositions = readPositions();
+
+            // Put nodes back where they were, and do the same with animation
+            Object.keys(initial).forEach(id => Object.assign(wf.model.findById(id).customProps, {
+                "sbg:x": initial[id].x,
+                "sbg:y": initial[id].y
+            }));
+            wf.draw();
+
+            const reports = [];
+            wf.on("afterChange", change => reports.push({change, positions: readPositions()}));
+
+            Object.assign(arrange, {animationDuration: 300});
+
+            const animated        = arrange.arrange();
+            const reportedAtStart = reports.length;
+
+            setTimeout(() => done({
+                instant,
+                instantPositions,
+                animated,
+                reportedAtStart,
+                reports: reports.map(report => {
+                    const after = {};
+                    report.change.positions.forEach(position => after[position.id] = position.after);
+
+                    return {type: report.change.type, after, positions: report.positions};
+                })
+            }), 1000);
+        }) as any;
+
+        const expectClose = (actual: { [id: string]: { x: number, y: number } }, expected: { [id: string]: { x: number, y: number } }) => {
+            expect(Object.keys(actual).sort()).toEqual(Object.keys(expected).sort());
+
+            for (const id in expected) {
+                expect(actual[id].x).toBeCloseTo(expected[id].x, 3);
+                expect(actual[id].y).toBeCloseTo(expected[id].y, 3);
+            }
+        };
+
+        expectClose(result.animated, result.instant);
+
+        expect(result.reportedAtStart).toBe(0);
+        expect(result.reports.length).toBe(1);
+        expect(result.reports[0].type).toBe("arrange");
+
+        expectClose(result.reports[0].after, result.instant);
+        expectClose(result.reports[0].positions, result.instantPositions);
+    });
+
+    it("arranges nothing when the change gets vetoed", async function () {
+
+        const updates = await browser.executeScript(() => {
+            const {wf, arrange} = window as any;
+
+            wf.on("beforeChange", change => change.preventDefault());
+
+            return arrange.arrange();
+        });
+
+        expect(updates).toEqual({});
+    });
+});
@@ -0,0 +1,504 @@
+import {
+    StepModel,
+    WorkflowFactory,
+    WorkflowInputParameterModel,
+    WorkflowModel,
+    WorkflowOutputParameterModel
+} from "cwlts/models";
+import {Workflow}                         from "../../graph/workflow";
+import {Edge}                             from "../../graph/edge";
+import {GraphNode, NodePosition}          from "../../graph/graph-node";
+import {ConnectionEndpoints, PasteChange} from "../plugin";
+import {PluginBase}                       from "../plugin-base";
+import {SelectionPlugin}                  from "../selection/selection";
+
+/**
+ * Reason why nodes couldn't be copied or pasted, emitted as “clipboard.error” so the app can show it to the user
+ */
+export interface ClipboardError {
+    type: "copy" | "paste" | "duplicate";
+    message: string;
+}
+
+declare module "../plugin" {
+    interface WorkflowEventMap {
+        "clipboard.error": ClipboardError;
+    }
+}
+
+export interface ClipboardPluginParams {
+    /** How far from the copied nodes should pasted ones be placed, grows with each consecutive paste */
+    pasteOffset?: number
+}
+
+/**
+ * Copies selected steps, inputs and outputs, along with the connections among them, and pastes them
+ * into the same or some other workflow.
+ *
+ * Copied nodes are stored as a CWL workflow fragment, which goes through the system clipboard on Ctrl+C and Ctrl+V,
+ * so it can be pasted into a different page as well. Ctrl+D duplicates the selection in place.
+ *
+ * The model has no way of creating a workflow input or output on its own, so those can be copied only
+ * along with some step they are connected to. Otherwise, nothing gets copied and the plugin emits
+ * a “clipboard.error” event that explains why, same as when a paste fails.
+ */
+export class ClipboardPlugin extends PluginBase {
+
+    private pasteOffset = 30;
+
+    /** Number of times the last copied fragment got pasted, so consecutive pastes don't stack on each other */
+    private pasteCount = 0;
+
+    /** Last copied fragment, used as a fallback when the clipboard can't be read */
+    private fragment: Object;
+
+    private disposers: Function[] = [];
+
+    constructor(parameters: ClipboardPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.workflow.eventHub.register("clipboard.error");
+
+        const copyListener    = this.onCopy.bind(this);
+        const pasteListener   = this.onPaste.bind(this);
+        const keyDownListener = this.onKeyDown.bind(this);
+
+        window.addEventListener("copy", copyListener, true);
+        window.addEventListener("paste", pasteListener, true);
+        window.addEventListener("keydown", keyDownListener, true);
+
+        this.disposers.push(
+            () => window.removeEventListener("copy", copyListener, true),
+            () => window.removeEventListener("paste", pasteListener, true),
+            () => window.removeEventListener("keydown", keyDownListener, true)
+        );
+    }
+
+    destroy(): void {
+        for (const dispose of this.disposers) {
+            dispose();
+        }
+
+        this.disposers = [];
+    }
+
+    /**
+     * Makes a CWL fragment out of selected nodes
+     * @returns undefined if no node is selected, or if the selection can't be copied
+     */
+    copy(): Object | undefined {
+        return this.copySelection("copy");
+    }
+
+    private copySelection(action: "copy" | "duplicate"): Object | undefined {
+        const selection = this.workflow.getPlugin(SelectionPlugin);
+
+        if (!selection) {
+            return undefined;
+        }
+
+        const modelIDs = [];
+        selection.getSelection().forEach((type, connectionID) => {
+            const node = type === "node" && this.workflow.model.findById(connectionID);
+            if (node) {
+                modelIDs.push(node.id);
+            }
+        });
+
+        if (modelIDs.length === 0) {
+            return undefined;
+        }
+
+        // Work on a copy of the model, removing nodes also removes their connections to the rest of the graph
+        const fragment = WorkflowFactory.from(this.workflow.model.serializeEmbedded());
+
+        for (const step of fragment.steps.slice()) {
+            if (modelIDs.indexOf(step.id) === -1) {
+                fragment.removeStep(step);
+            }
+        }
+
+        for (const input of fragment.inputs.slice()) {
+            if (modelIDs.indexOf(input.id) === -1) {
+                fragment.removeInput(input);
+            }
+        }
+
+        for (const output of fragment.outputs.slice()) {
+            if (modelIDs.indexOf(output.id) === -1) {
+                fragment.removeOutput(output);
+            }
+        }
+
+        if (!this.canPasteIO(fragment, action)) {
+            return undefined;
+        }
+
+        this.fragment   = fragment.serializeEmbedded();
+        this.pasteCount = 0;
+
+        return this.fragment;
+    }
+
+    /**
+     * Inserts nodes from a fragment made by {@link copy} into this workflow, with fresh IDs and shifted positions
+     * @returns connection IDs of pasted nodes
+     */
+    paste(fragment: Object | string = this.fragment, type: "paste" | "duplicate" = "paste"): string[] {
+
+        if (!fragment || !this.workflow.editingEnabled) {
+            return [];
+        }
+
+        const source = this.parseFragment(fragment, type);
+        const target = this.workflow.model;
+
+        if (!source) {
+            return [];
+        }
+
+        if (source.cwlVersion !== target.cwlVersion) {
+            this.workflow.eventHub.emit("clipboard.error", {
+                type,
+                message: `Cannot paste a fragment of CWL version “${source.cwlVersion}” into a “${target.cwlVersion}” workflow.`
+            });
+            return [];
+        }
+
+        // Fragments can come from elsewhere, so they don't necessarily hold only what copy() lets through
+        if (!this.canPasteIO(source, type)) {
+            return [];
+        }
+
+        if (!this.onBeforeChange({type, nodeIDs: [], connections: [], positions: []} as PasteChange)) {
+            return [];
+        }
+
+        this.pasteCount++;
+
+        const offset = this.pasteOffset * this.pasteCount;
+        const change = {type, nodeIDs: [], connections: [], positions: []} as PasteChange;
+
+        const ids     = this.reserveIDs(source, target);
+        const ioIDs   = [...source.inputs, ...source.outputs].map(node => node.id);
+        const created = new Set<string>();
+
+        /** Translates a connection ID from the fragment into the pasted graph, if the node it points to gets pasted */
+        const remap = (connectionID: string): string | undefined => {
+            const {side, stepID, portID} = Edge.parseConnectionID(connectionID);
+            const id                     = ids.get(stepID);
+
+            if (!id) {
+                return undefined;
+            }
+
+            // Workflow inputs and outputs repeat their own ID in place of the port ID
+            return [side, id, ioIDs.indexOf(stepID) !== -1 ? id : portID].join("/");
+        };
+
+        const placeNode = (node: StepModel | WorkflowInputParameterModel | WorkflowOutputParameterModel) => {
+            const position = GraphNode.getModelPosition(node) || {x: 0, y: 0};
+            return {x: position.x + offset, y: position.y + offset};
+        };
+
+        const remember = (node: StepModel | WorkflowInputParameterModel | WorkflowOutputParameterModel) => {
+            change.nodeIDs.push(node.connectionId);
+            change.positions.push({id: node.connectionId, after: GraphNode.getModelPosition(node)});
+        };
+
+        for (const step of source.steps) {
+
+            const position = placeNode(step);
+            const run      = ClipboardPlugin.serializeRun(step);
+
+            // The workflow renders a step as soon as it gets created, and it takes the position from its app
+            Object.assign(run, {"sbg:x": position.x, "sbg:y": position.y});
+
+            const pasted = target.addStepFromProcess(run);
+
+            target.changeStepId(pasted, ids.get(step.id));
+            pasted.label = step.label;
+            pasted.customProps = Object.assign({}, step.customProps, {"sbg:x": position.x, "sbg:y": position.y});
+
+            for (const port of step.in) {
+                const pastedPort = pasted.in.find(p => p.id === port.id);
+                if (!pastedPort) {
+                    continue;
+                }
+
+                // Settings of the port belong to the step rather than its app, connections are made further below
+                Object.assign(pastedPort, {
+                    default: port.default,
+                    valueFrom: port.valueFrom,
+                    linkMerge: port.linkMerge,
+                    customProps: Object.assign({}, port.customProps)
+                });
+
+                if (port.isVisible && !pastedPort.isVisible) {
+                    target.includePort(pastedPort);
+                }
+            }
+
+            remember(pasted);
+        }
+
+        const connections = source.connections.filter(c => c.isVisible && c.source.type !== "Step" && c.destination.type !== "Step");
+
+        const recordConnection = (edge: ConnectionEndpoints) => {
+            created.add(edge.source + edge.destination);
+            change.connections.push(edge);
+        };
+
+        for (const input of source.inputs.filter(i => i.isVisible)) {
+            const edges = connections
+                .filter(c => c.source.id === input.connectionId)
+                .map(c => ({source: c.source.id, destination: remap(c.destination.id)}))
+                .filter(c => c.destination);
+
+            if (edges.length === 0) {
+                continue;
+            }
+
+            const pasted = target.createInputFromPort(edges[0].destination, {
+                customProps: ClipboardPlugin.serializeIO(input, placeNode(input))
+            });
+
+            target.changeIONodeId(pasted, ids.get(input.id));
+
+            recordConnection({source: pasted.connectionId, destination: edges[0].destination});
+            remember(pasted);
+        }
+
+        for (const output of source.outputs.filter(o => o.isVisible)) {
+            const edges = connections
+                .filter(c => c.destination.id === output.connectionId)
+                .map(c => ({source: remap(c.source.id), destination: c.destination.id}))
+                .filter(c => c.source);
+
+            if (edges.length === 0) {
+                continue;
+            }
+
+            const pasted = target.createOutputFromPort(edges[0].source, {
+                customProps: ClipboardPlugin.serializeIO(output, placeNode(output))
+            });
+
+            target.changeIONodeId(pasted, ids.get(output.id));
+
+            recordConnection({source: edges[0].source, destination: pasted.connectionId});
+            remember(pasted);
+        }
+
+        for (const edge of connections) {
+            const sourceID      = remap(edge.source.id);
+            const destinationID = remap(edge.destination.id);
+            const isPasted      = sourceID && destinationID && target.findById(sourceID) && target.findById(destinationID);
+
+            if (isPasted && !created.has(sourceID + destinationID)) {
+                target.connect(sourceID, destinationID);
+                recordConnection({source: sourceID, destination: destinationID});
+            }
+        }
+
+        // Nodes were rendered on creation, under the IDs that the model picked for them, so bring the graph up to date
+        this.workflow.draw();
+
+        this.selectPastedNodes(change.nodeIDs);
+
+        this.onAfterChange(change);
+
+        return change.nodeIDs;
+    }
+
+    /**
+     * Pastes the selection right next to it, without going through the clipboard
+     */
+    duplicate(): string[] {
+        const fragment = this.copySelection("duplicate");
+
+        return fragment ? this.paste(fragment, "duplicate") : [];
+    }
+
+    /**
+     * Checks that every input and output of the fragment is connected to one of its steps, since those are
+     * the only ones that can be pasted, and emits an error that names the others
+     */
+    private canPasteIO(fragment: WorkflowModel, action: "copy" | "paste" | "duplicate"): boolean {
+        const connections = fragment.connections.filter(c => c.isVisible);
+
+        const detached = [
+            ...fragment.inputs.filter(input => input.isVisible && !connections.some(c =>
+                c.source.id === input.connectionId && c.destination.type === "StepInput")),
+            ...fragment.outputs.filter(output => output.isVisible && !connections.some(c =>
+                c.destination.id === output.connectionId && c.source.type === "StepOutput"))
+        ];
+
+        if (detached.length === 0) {
+            return true;
+        }
+
+        const names = detached.map(node => `“${node.label || node.id}”`).join(", ");
+
+        this.workflow.eventHub.emit("clipboard.error", {
+            type: action,
+            message: `Inputs and outputs can only be ${action === "paste" ? "pasted" : "copied"} along with a step`
+            + ` they are connected to, which is not the case for ${names}.`
+        });
+
+        return false;
+    }
+
+    /**
+     * Finds IDs under which the nodes from the fragment will be pasted, without clashing with existing nodes
+     * @returns new IDs indexed by the IDs of nodes in the fragment
+     */
+    private reserveIDs(source: WorkflowModel, target: WorkflowModel): Map<string, string> {
+        const taken = new Set<string>();
+        const ids   = new Map<string, string>();
+
+        for (const node of [...target.steps, ...target.inputs, ...target.outputs]) {
+            taken.add(node.id);
+        }
+
+        for (const node of [...source.steps, ...source.inputs, ...source.outputs]) {
+            let id = node.id;
+
+            for (let i = 1; taken.has(id); i++) {
+                id = `${node.id}_${i}`;
+            }
+
+            taken.add(id);
+            ids.set(node.id, id);
+        }
+
+        return ids;
+    }
+
+    private selectPastedNodes(connectionIDs: string[]): void {
+        const selection = this.workflow.getPlugin(SelectionPlugin);
+
+        if (!selection) {
+            return;
+        }
+
+        selection.clearSelection();
+
+        for (const connectionID of connectionIDs) {
+            selection.selectStep(connectionID);
+        }
+    }
+
+    private onCopy(ev: ClipboardEvent): void {
+        if (!this.isGraphEvent(ev)) {
+            return;
+        }
+
+        const fragment = this.copy();
+
+        if (fragment) {
+            ev.clipboardData.setData("text/plain", JSON.stringify(fragment, null, 4));
+            ev.preventDefault();
+        }
+    }
+
+    private onPaste(ev: ClipboardEvent): void {
+        if (!this.isGraphEvent(ev) || !this.workflow.editingEnabled) {
+            return;
+        }
+
+        const text = ev.clipboardData.getData("text/plain");
+        let fragment;
+
+        try {
+            fragment = text ? JSON.parse(text) : this.fragment;
+        } catch (ex) {
+            // Clipboard holds something other than a copied graph, so leave it to someone else
+            return;
+        }
+
+        if (!fragment || fragment.class !== "Workflow") {
+            return;
+        }
+
+        ev.preventDefault();
+
+        if (fragment !== this.fragment && JSON.stringify(fragment) !== JSON.stringify(this.fragment)) {
+            this.fragment   = fragment;
+            this.pasteCount = 0;
+        }
+
+        this.paste(fragment);
+    }
+
+    private onKeyDown(ev: KeyboardEvent): void {
+        if (!(ev.ctrlKey || ev.metaKey) || ev.key.toLowerCase() !== "d" || !this.isGraphEvent(ev) || !this.workflow.editingEnabled) {
+            return;
+        }
+
+        ev.preventDefault();
+        this.duplicate();
+    }
+
+    private isGraphEvent(ev: Event): boolean {
+        const target = ev.target as Node;
+
+        // Text fields can be embedded into the canvas, and those should keep working as usual
+        const isTextField = target instanceof HTMLInputElement || target instanceof HTMLTextAreaElement;
+
+        return this.workflow.svgRoot.contains(target) && !isTextField;
+    }
+
+    /**
+     * Reads a fragment into a model, or reports why it can't be pasted
+     */
+    private parseFragment(fragment: Object | string, type: "paste" | "duplicate"): WorkflowModel | undefined {
+        const fail = (reason: string) => {
+            this.workflow.eventHub.emit("clipboard.error", {type, message: `Cannot paste the fragment, ${reason}.`});
+        };
+
+        let parsed;
+
+        try {
+            parsed = typeof fragment === "string" ? JSON.parse(fragment) : fragment;
+        } catch (ex) {
+            fail("it is not valid JSON");
+            return;
+        }
+
+        if (!parsed || parsed.class !== "Workflow") {
+            fail("it does not describe a CWL workflow");
+            return;
+        }
+
+        try {
+            return WorkflowFactory.from(parsed);
+        } catch (ex) {
+            fail(`it is not a valid workflow: ${ex.message}`);
+        }
+    }
+
+    /**
+     * Settings of a workflow input or output, from which the model can make a copy of it.
+     * The copy gets its own ID and connections, so those are left out.
+     */
+    private static serializeIO(io: WorkflowInputParameterModel | WorkflowOutputParameterModel, position: NodePosition): any {
+        const serialized = io.serialize();
+
+        delete serialized.id;
+        delete serialized.source;
+        delete serialized.outputSource;
+
+        return Object.assign(serialized, {"sbg:x": position.x, "sbg:y": position.y});
+    }
+
+    private static serializeRun(step: StepModel): any {
+        const run = step.run as any;
+
+        return typeof run.serializeEmbedded === "function" ? run.serializeEmbedded() : run.serialize();
+    }
+}
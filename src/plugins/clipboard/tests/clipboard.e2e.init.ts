@@ -0,0 +1,21 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}           from "cwlts/models";
+import {SelectionPlugin, Workflow} from "../../../";
+import {ClipboardPlugin}           from "../clipboard";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const clipboard = new ClipboardPlugin();
+const selection = new SelectionPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [clipboard, selection]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, clipboard, selection});
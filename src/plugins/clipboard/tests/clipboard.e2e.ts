@@ -0,0 +1,147 @@
+import {browser}       from "protractor";
+import {serveCompiled} from "../../../utils/test-utils";
+
+describe("Clipboard", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    function prepare(...selectedIDs: string[]) {
+        return browser.executeScript((ids: string[]) => {
+            const {selection, wf} = window as any;
+
+            (window as any).changes = [];
+            (window as any).errors  = [];
+            wf.on("afterChange", change => (window as any).changes.push(change));
+            wf.on("clipboard.error", error => (window as any).errors.push(error));
+
+            ids.forEach(id => selection.getSelection().set(id, "node"));
+        }, selectedIDs);
+    }
+
+    it("duplicates selected nodes along with the connections among them", async function () {
+
+        await prepare("out/message/message", "print");
+
+        const result = await browser.executeScript(() => {
+            const {wf, clipboard} = window as any;
+            const pasted          = clipboard.duplicate();
+
+            return {
+                pasted,
+                changes: (window as any).changes,
+                connected: wf.model.connections.some(c => c.source.id === "out/message_1/message_1"
+                    && c.destination.id === "in/print_1/message")
+            };
+        }) as any;
+
+        expect(result.pasted).toEqual(["print_1", "out/message_1/message_1"]);
+        expect(result.connected).toBe(true);
+        expect(result.changes.length).toBe(1);
+        expect(result.changes[0].type).toBe("duplicate");
+    });
+
+    it("keeps settings of step ports when pasting", async function () {
+
+        await prepare("print");
+
+        const port = await browser.executeScript(() => {
+            const {wf, clipboard} = window as any;
+
+            clipboard.paste(clipboard.copy());
+
+            return wf.model.findById("print_1").in[0].serialize();
+        }) as any;
+
+        expect(port.valueFrom).toBe("$(self + '!')");
+        expect(port.linkMerge).toBe("merge_flattened");
+    });
+
+    it("keeps settings of inputs and outputs when pasting", async function () {
+
+        await prepare("out/message/message", "print", "in/printed/printed");
+
+        const result = await browser.executeScript(() => {
+            const {wf, clipboard} = window as any;
+
+            clipboard.paste(clipboard.copy());
+
+            return {
+                input: wf.model.findById("out/message_1/message_1").serialize(),
+                output: wf.model.findById("in/printed_1/printed_1").serialize()
+            };
+        }) as any;
+
+        expect(result.input.doc).toBe("Text to print");
+        expect(result.input.default).toBe("hello");
+        expect(result.input.type).toBe("string");
+        expect(result.output.doc).toBe("Printed text");
+        expect(result.output.outputSource).toEqual(["print_1/output"]);
+    });
+
+    it("refuses to copy inputs that are not connected to a copied step, and tells why", async function () {
+
+        await prepare("out/unused/unused", "print");
+
+        const result = await browser.executeScript(() => ({
+            fragment: (window as any).clipboard.copy(),
+            errors: (window as any).errors
+        })) as any;
+
+        expect(result.fragment).toBeFalsy();
+        expect(result.errors.length).toBe(1);
+        expect(result.errors[0].type).toBe("copy");
+        expect(result.errors[0].message).toContain("unused");
+    });
+
+    it("refuses to paste a fragment of a different CWL version", async function () {
+
+        await prepare();
+
+        const result = await browser.executeScript(() => {
+            const {wf, clipboard} = window as any;
+            const steps           = wf.model.steps.length;
+
+            clipboard.paste({class: "Workflow", cwlVersion: "sbg:draft-2", inputs: [], outputs: [], steps: []});
+
+            return {
+                added: wf.model.steps.length - steps,
+                changes: (window as any).changes,
+                errors: (window as any).errors
+            };
+        }) as any;
+
+        expect(result.added).toBe(0);
+        expect(result.changes.length).toBe(0);
+        expect(result.errors.map(error => error.type)).toEqual(["paste"]);
+    });
+
+    it("reports fragments that can't be read instead of throwing", async function () {
+
+        await prepare();
+
+        const result = await browser.executeScript(() => {
+            const {clipboard} = window as any;
+
+            return {
+                fromText: clipboard.paste("{not json"),
+                fromObject: clipboard.paste({class: "CommandLineTool"}),
+                changes: (window as any).changes,
+                errors: (window as any).errors
+            };
+        }) as any;
+
+        expect(result.fromText).toEqual([]);
+        expect(result.fromObject).toEqual([]);
+        expect(result.changes.length).toBe(0);
+        expect(result.errors.map(error => error.type)).toEqual(["paste", "paste"]);
+    });
+});
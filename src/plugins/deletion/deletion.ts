@@ -1,6 +1,9 @@
 import {PluginBase} from "../plugin-base";
 import {SelectionPlugin} from "../selection/selection";
 import {StepModel, WorkflowInputParameterModel, WorkflowOutputParameterModel} from "cwlts/models";
+import {ConnectionEndpoints, DeleteChange, DisconnectChange} from "../plugin";
+import {Edge} from "../../graph/edge";
+import {GraphNode} from "../../graph/graph-node";
 
 export class DeletionPlugin extends PluginBase {
 
@@ -44,29 +47,86 @@ export class DeletionPlugin extends PluginBase {
         }
 
         const selected = selection.getSelection();
-        selected.forEach((type, id) => {
+
+        if (selected.size === 0) {
+            return;
+        }
+
+        const change = this.describeDeletion(selected);
+
+        if (!this.onBeforeChange(change)) {
+            return;
+        }
+
+        // Removing nodes removes their connections as well, so disconnect selected edges first
+        // in order not to disconnect something that's already gone
+        const items = Array.from(selected).sort(([, a], [, b]) => a === b ? 0 : a === "edge" ? -1 : 1);
+
+        selection.clearSelection();
+
+        for (const [id, type] of items) {
             if (type === "node") {
                 const model = this.workflow.model.findById(id);
 
                 if (model instanceof StepModel) {
                     this.workflow.model.removeStep(model);
-                    selection.clearSelection();
 
                 } else if (model instanceof WorkflowInputParameterModel) {
                     this.workflow.model.removeInput(model);
-                    selection.clearSelection();
 
                 } else if (model instanceof WorkflowOutputParameterModel) {
-
                     this.workflow.model.removeOutput(model);
-                    selection.clearSelection();
                 }
             } else {
                 const [source, destination] = id.split(SelectionPlugin.edgePortsDelimiter);
                 this.workflow.model.disconnect(source, destination);
-                selection.clearSelection();
+            }
+        }
+
+        this.onAfterChange(change);
+    }
+
+    /**
+     * Nodes take their connections with them, so those are listed as well.
+     * If only edges are selected, the change is a disconnect.
+     */
+    private describeDeletion(selected: Map<string, "node" | "edge">): DeleteChange | DisconnectChange {
+
+        const nodeIDs     = [];
+        const positions   = [];
+        const connections = new Map<string, ConnectionEndpoints>();
+        const modelIDs    = [];
+
+        selected.forEach((type, id) => {
+            if (type === "node") {
+                const model = this.workflow.model.findById(id);
+
+                nodeIDs.push(id);
+                modelIDs.push(model.id);
+                positions.push({id, before: GraphNode.getModelPosition(model)});
+            } else {
+                const [source, destination] = id.split(SelectionPlugin.edgePortsDelimiter);
+                connections.set(id, {source, destination});
             }
         });
+
+        for (const edge of this.workflow.model.connections) {
+            const sourceNode      = Edge.parseConnectionID(edge.source.id).stepID;
+            const destinationNode = Edge.parseConnectionID(edge.destination.id).stepID;
+
+            if (modelIDs.indexOf(sourceNode) !== -1 || modelIDs.indexOf(destinationNode) !== -1) {
+                connections.set(edge.source.id + SelectionPlugin.edgePortsDelimiter + edge.destination.id, {
+                    source: edge.source.id,
+                    destination: edge.destination.id
+                });
+            }
+        }
+
+        if (nodeIDs.length === 0) {
+            return {type: "disconnect", connections: Array.from(connections.values())};
+        }
+
+        return {type: "delete", nodeIDs, positions, connections: Array.from(connections.values())};
     }
 
     destroy() {
@@ -0,0 +1,253 @@
+import {Workflow}        from "../../graph/workflow";
+import {PluginBase}      from "../plugin-base";
+import {SelectionPlugin} from "../selection/selection";
+
+type Direction = "ArrowUp" | "ArrowDown" | "ArrowLeft" | "ArrowRight";
+
+export interface KeyboardNavigationPluginParams {
+    /** Space to leave between the focused element and the edge of the canvas when panning towards it */
+    panPadding?: number
+}
+
+/**
+ * Lets the graph be explored without a mouse.
+ *
+ * Arrow keys move focus to the closest node in that direction, preferring the ones that are connected
+ * to the focused node. Tab and Shift+Tab cycle through ports of the focused node, Enter selects the node,
+ * and Shift+Enter adds it to the selection. Escape moves focus from a port back to its node,
+ * and from a node to the canvas, from where Tab leaves the graph as usual.
+ *
+ * The canvas pans to keep the focused element in view.
+ */
+export class KeyboardNavigationPlugin extends PluginBase {
+
+    private panPadding = 50;
+
+    private svg: SVGSVGElement;
+
+    private cleanups: Function[] = [];
+
+    private css = {
+        plugin: "__plugin-keyboard-navigation"
+    };
+
+    constructor(parameters: KeyboardNavigationPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.svg = this.workflow.svgRoot;
+        this.svg.classList.add(this.css.plugin);
+
+        // The canvas has to be reachable by tabbing before anything on it can be focused
+        if (!this.svg.hasAttribute("tabindex")) {
+            this.svg.setAttribute("tabindex", "0");
+            this.cleanups.push(() => this.svg.removeAttribute("tabindex"));
+        }
+
+        const keyDownListener = this.onKeyDown.bind(this);
+        this.svg.addEventListener("keydown", keyDownListener);
+        this.cleanups.push(() => this.svg.removeEventListener("keydown", keyDownListener));
+    }
+
+    destroy(): void {
+        this.svg.classList.remove(this.css.plugin);
+
+        for (const fn of this.cleanups) {
+            fn();
+        }
+
+        this.cleanups = [];
+    }
+
+    /**
+     * Focuses a node or a port and pans the canvas so it can be seen
+     */
+    focus(element: SVGElement): void {
+        (element as any).focus();
+        this.panToElement(element);
+    }
+
+    private onKeyDown(ev: KeyboardEvent): void {
+
+        const target = ev.target as SVGElement;
+        const port   = this.workflow.findParent(target, "port");
+        const node   = this.workflow.findParent(target, "node");
+
+        switch (ev.key) {
+            case "ArrowUp":
+            case "ArrowDown":
+            case "ArrowLeft":
+            case "ArrowRight": {
+                const next = this.findAdjacentNode(node, ev.key as Direction);
+
+                if (next) {
+                    this.focus(next);
+                }
+                break;
+            }
+            case "Tab": {
+                if (!node) {
+                    // Let the focus leave the canvas
+                    return;
+                }
+
+                this.focus(this.findNextPort(node, port, ev.shiftKey ? -1 : 1));
+                break;
+            }
+            case "Enter": {
+                const selection = this.workflow.getPlugin(SelectionPlugin);
+
+                if (!node || !selection) {
+                    return;
+                }
+
+                if (!ev.shiftKey) {
+                    selection.clearSelection();
+                }
+
+                selection.selectStep(node.getAttribute("data-connection-id"));
+                break;
+            }
+            case "Escape": {
+                if (port) {
+                    this.focus(node);
+                } else if (node) {
+                    (this.svg as any).focus();
+                } else {
+                    return;
+                }
+                break;
+            }
+            default:
+                return;
+        }
+
+        ev.preventDefault();
+        ev.stopPropagation();
+    }
+
+    /**
+     * Finds the closest node in the given direction, looking at nodes that are connected to the given one first
+     * @param from Node that has focus, if there is none, the node closest to the middle of the canvas is taken
+     */
+    private findAdjacentNode(from: SVGGElement | undefined, direction: Direction): SVGGElement | undefined {
+
+        const nodes = Array.from(this.workflow.workflow.querySelectorAll(".node")) as SVGGElement[];
+
+        if (!from) {
+            const rect   = this.svg.getBoundingClientRect();
+            const center = this.workflow.transformScreenCTMtoCanvas(rect.left + rect.width / 2, rect.top + rect.height / 2);
+
+            return KeyboardNavigationPlugin.findClosest(center, nodes);
+        }
+
+        const origin     = KeyboardNavigationPlugin.getNodePosition(from);
+        const candidates = nodes.filter(node => {
+            const position = KeyboardNavigationPlugin.getNodePosition(node);
+            const dx       = position.x - origin.x;
+            const dy       = position.y - origin.y;
+
+            // Take nodes that lie within a 90° wide cone facing the direction
+            switch (direction) {
+                case "ArrowRight":
+                    return dx > 0 && Math.abs(dy) <= dx;
+                case "ArrowLeft":
+                    return dx < 0 && Math.abs(dy) <= -dx;
+                case "ArrowDown":
+                    return dy > 0 && Math.abs(dx) <= dy;
+                case "ArrowUp":
+                    return dy < 0 && Math.abs(dx) <= -dy;
+            }
+        });
+
+        const connectedIDs = this.findConnectedNodeIDs(from.getAttribute("data-id"));
+        const connected    = candidates.filter(node => connectedIDs.has(node.getAttribute("data-id")));
+
+        return KeyboardNavigationPlugin.findClosest(origin, connected.length ? connected : candidates);
+    }
+
+    private findConnectedNodeIDs(nodeID: string): Set<string> {
+        const ids   = new Set<string>();
+        const edges = this.workflow.workflow.querySelectorAll(
+            `.edge[data-source-node="${nodeID}"],` +
+            `.edge[data-destination-node="${nodeID}"]`
+        );
+
+        for (const edge of Array.from(edges)) {
+            ids.add(edge.getAttribute("data-source-node"));
+            ids.add(edge.getAttribute("data-destination-node"));
+        }
+
+        ids.delete(nodeID);
+
+        return ids;
+    }
+
+    /**
+     * Goes through input ports and then output ports of the node, with the node itself between the last and the first port
+     * @param current Port that has focus, if any
+     * @param step 1 to move forward, -1 to move backward
+     */
+    private findNextPort(node: SVGGElement, current: SVGGElement | undefined, step: 1 | -1): SVGGElement {
+        const stops = [
+            node,
+            ...Array.from(node.querySelectorAll(".input-port")),
+            ...Array.from(node.querySelectorAll(".output-port"))
+        ] as SVGGElement[];
+
+        const index = stops.indexOf(current || node);
+
+        return stops[(index + step + stops.length) % stops.length];
+    }
+
+    /**
+     * Moves the canvas by the least amount that brings the whole element into view
+     */
+    private panToElement(element: SVGElement): void {
+        const canvas = this.svg.getBoundingClientRect();
+        const rect   = element.getBoundingClientRect();
+        const matrix = this.workflow.workflow.transform.baseVal.getItem(0).matrix;
+
+        const overflow = (start: number, end: number, viewStart: number, viewEnd: number): number => {
+            if (start < viewStart + this.panPadding) {
+                return viewStart + this.panPadding - start;
+            }
+
+            if (end > viewEnd - this.panPadding) {
+                return Math.max(viewEnd - this.panPadding - end, viewStart + this.panPadding - start);
+            }
+
+            return 0;
+        };
+
+        matrix.e += overflow(rect.left, rect.right, canvas.left, canvas.right);
+        matrix.f += overflow(rect.top, rect.bottom, canvas.top, canvas.bottom);
+    }
+
+    private static getNodePosition(node: SVGGElement): { x: number, y: number } {
+        const matrix = node.transform.baseVal.getItem(0).matrix;
+
+        return {x: matrix.e, y: matrix.f};
+    }
+
+    private static findClosest(point: { x: number, y: number }, nodes: SVGGElement[]): SVGGElement | undefined {
+        let closest: SVGGElement;
+        let closestDistance = Infinity;
+
+        for (const node of nodes) {
+            const position = KeyboardNavigationPlugin.getNodePosition(node);
+            const distance = Math.pow(position.x - point.x, 2) + Math.pow(position.y - point.y, 2);
+
+            if (distance < closestDistance) {
+                closest         = node;
+                closestDistance = distance;
+            }
+        }
+
+        return closest;
+    }
+}
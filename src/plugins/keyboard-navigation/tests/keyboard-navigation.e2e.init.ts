@@ -0,0 +1,24 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}          from "cwlts/models";
+import {Workflow}                 from "../../../";
+import {SelectionPlugin}          from "../../selection/selection";
+import {KeyboardNavigationPlugin} from "../keyboard-navigation";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const selection = new SelectionPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [
+        selection,
+        new KeyboardNavigationPlugin()
+    ]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, selection});
@@ -0,0 +1,58 @@
+import {browser, by, element, protractor} from "protractor";
+import {serveCompiled}                    from "../../../utils/test-utils";
+
+describe("Keyboard navigation", () => {
+
+    let server;
+
+    const getFocused = () => browser.executeScript(() => {
+        const focused = document.activeElement;
+        return focused.getAttribute("data-id") || focused.getAttribute("data-port-id");
+    });
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("moves focus to the connected node in the direction of the arrow", async function () {
+
+        await element(by.css("[data-id='message'] .inner")).click();
+        expect(await getFocused()).toBe("message");
+
+        // Unconnected “idle” step is closer, but the connected one should be preferred
+        await browser.actions().sendKeys(protractor.Key.ARROW_RIGHT).perform();
+        expect(await getFocused()).toBe("print");
+
+        await browser.actions().sendKeys(protractor.Key.ARROW_RIGHT).perform();
+        expect(await getFocused()).toBe("printed");
+    });
+
+    it("cycles through ports of the focused node with tab", async function () {
+
+        await element(by.css("[data-id='print'] .inner")).click();
+
+        await browser.actions().sendKeys(protractor.Key.TAB).perform();
+        expect(await getFocused()).toBe("message");
+
+        await browser.actions().sendKeys(protractor.Key.TAB).perform();
+        expect(await getFocused()).toBe("output");
+
+        await browser.actions().sendKeys(protractor.Key.TAB).perform();
+        expect(await getFocused()).toBe("print");
+    });
+
+    it("selects the focused node on enter", async function () {
+
+        await element(by.css("[data-id='message'] .inner")).click();
+        await browser.actions().sendKeys(protractor.Key.ARROW_RIGHT, protractor.Key.ENTER).perform();
+
+        const selection = await browser.executeScript(() => Array.from((window as any).selection.getSelection().keys()));
+
+        expect(selection).toEqual(["print"]);
+    });
+});
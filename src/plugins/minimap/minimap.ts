@@ -0,0 +1,345 @@
+import {Workflow}   from "../../graph/workflow";
+import {PluginBase} from "../plugin-base";
+
+export interface MinimapPluginParams {
+    /** Width of the minimap in pixels */
+    width?: number,
+
+    /** Height of the minimap in pixels */
+    height?: number,
+
+    /** Distance of the minimap from the bottom right corner of the canvas */
+    margin?: number
+}
+
+/**
+ * Shows a scaled-down overview of the whole graph in the corner of the canvas, along with the part of it
+ * that is currently visible. Clicking or dragging over the minimap pans the canvas to that point.
+ *
+ * The overview follows changes of the graph by observing the “.workflow” group, so anything that moves nodes,
+ * reroutes edges or transforms the canvas shows up on the next animation frame.
+ * Only nodes and edges that changed get redrawn, and panning or zooming moves just the viewport rectangle,
+ * so large graphs stay cheap to follow.
+ */
+export class MinimapPlugin extends PluginBase {
+
+    private width = 200;
+    private height = 150;
+    private margin = 10;
+
+    /** Outer group of the minimap, placed in the canvas corner */
+    private container: SVGGElement;
+
+    /** Nested SVG whose view box is set to the bounds of the graph, so graph coordinates can be used inside */
+    private overview: SVGSVGElement;
+
+    private edgeLayer: SVGGElement;
+    private nodeLayer: SVGGElement;
+    private viewport: SVGRectElement;
+
+    /** Shapes in the overview, indexed by the node or edge element that they stand for */
+    private shapes = new Map<Element, SVGElement>();
+
+    /** Nodes and edges that changed since the last redraw */
+    private dirty = new Set<Element>();
+
+    /** Whether nodes or edges might have been added or removed since the last redraw */
+    private structureChanged = true;
+
+    private observer: MutationObserver;
+
+    /** ID of the requested animation frame for a redraw, so we don't redraw more than once per frame */
+    private redrawFrame: number;
+
+    private cleanups: Function[] = [];
+
+    private css = {
+        plugin: "__plugin-minimap",
+        minimap: "__minimap-plugin",
+        background: "__minimap-background",
+        node: "__minimap-node",
+        edge: "__minimap-edge",
+        viewport: "__minimap-viewport"
+    };
+
+    constructor(parameters: MinimapPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.workflow.svgRoot.classList.add(this.css.plugin);
+
+        this.createMinimap();
+
+        this.observer = new MutationObserver(records => this.onMutations(records));
+        this.observer.observe(this.workflow.workflow, {
+            subtree: true,
+            childList: true,
+            attributes: true,
+            attributeFilter: ["transform", "d"]
+        });
+
+        const resizeListener = () => this.scheduleRedraw();
+        window.addEventListener("resize", resizeListener);
+        this.cleanups.push(() => window.removeEventListener("resize", resizeListener));
+    }
+
+    afterRender(): void {
+        this.scheduleRedraw();
+    }
+
+    destroy(): void {
+        this.observer.disconnect();
+
+        if (this.redrawFrame) {
+            window.cancelAnimationFrame(this.redrawFrame);
+        }
+
+        for (const fn of this.cleanups) {
+            fn();
+        }
+
+        this.cleanups = [];
+        this.container.remove();
+        this.workflow.svgRoot.classList.remove(this.css.plugin);
+    }
+
+    /**
+     * Redraws changed parts of the overview and the viewport rectangle right away
+     */
+    redraw(): void {
+
+        this.redrawFrame = undefined;
+
+        const svgRect = this.workflow.svgRoot.getBoundingClientRect();
+        const x       = svgRect.width - this.width - this.margin;
+        const y       = svgRect.height - this.height - this.margin;
+
+        this.container.setAttribute("transform", `matrix(1, 0, 0, 1, ${x}, ${y})`);
+
+        // Keep the minimap above the graph, other things might have been appended to the canvas in the meantime
+        if (this.workflow.svgRoot.lastElementChild !== this.container) {
+            this.workflow.svgRoot.appendChild(this.container);
+        }
+
+        const contentChanged = this.structureChanged || this.dirty.size > 0;
+
+        if (this.structureChanged) {
+            this.syncShapes();
+        }
+
+        this.dirty.forEach(el => this.updateShape(el));
+        this.dirty.clear();
+
+        // Panning and zooming transform the graph as a whole, which doesn't change its bounds
+        const bounds = contentChanged ? this.workflow.workflow.getBBox() : undefined;
+        if (bounds && bounds.width > 0 && bounds.height > 0) {
+            const padding = Math.max(bounds.width, bounds.height) * 0.05;
+            this.overview.setAttribute("viewBox", [
+                bounds.x - padding,
+                bounds.y - padding,
+                bounds.width + padding * 2,
+                bounds.height + padding * 2
+            ].join(" "));
+        }
+
+        // Visible part of the canvas is the viewport transformed back into graph coordinates
+        const matrix = this.workflow.workflow.transform.baseVal.getItem(0).matrix;
+        const scale  = matrix.a;
+
+        this.viewport.setAttribute("x", String(-matrix.e / scale));
+        this.viewport.setAttribute("y", String(-matrix.f / scale));
+        this.viewport.setAttribute("width", String(svgRect.width / scale));
+        this.viewport.setAttribute("height", String(svgRect.height / scale));
+    }
+
+    private scheduleRedraw(): void {
+        if (this.redrawFrame) {
+            return;
+        }
+
+        this.redrawFrame = window.requestAnimationFrame(() => this.redraw());
+    }
+
+    private createMinimap(): void {
+        const ns = "http://www.w3.org/2000/svg";
+
+        this.container = document.createElementNS(ns, "g") as SVGGElement;
+        this.container.classList.add(this.css.minimap);
+
+        // Drawn over the viewport rather than the graph, so it has no place in exported pictures
+        this.container.setAttribute("data-no-export", "");
+
+        const background = document.createElementNS(ns, "rect");
+        background.classList.add(this.css.background);
+        background.setAttribute("width", String(this.width));
+        background.setAttribute("height", String(this.height));
+
+        this.overview = document.createElementNS(ns, "svg") as SVGSVGElement;
+        this.overview.setAttribute("width", String(this.width));
+        this.overview.setAttribute("height", String(this.height));
+
+        // Edges go under nodes, same as on the canvas
+        this.edgeLayer = document.createElementNS(ns, "g") as SVGGElement;
+        this.nodeLayer = document.createElementNS(ns, "g") as SVGGElement;
+
+        this.viewport = document.createElementNS(ns, "rect") as SVGRectElement;
+        this.viewport.classList.add(this.css.viewport);
+
+        this.overview.appendChild(this.edgeLayer);
+        this.overview.appendChild(this.nodeLayer);
+        this.overview.appendChild(this.viewport);
+        this.container.appendChild(background);
+        this.container.appendChild(this.overview);
+
+        this.workflow.svgRoot.appendChild(this.container);
+
+        const mouseDownListener = this.onMouseDown.bind(this);
+        const clickListener     = (ev: MouseEvent) => ev.stopPropagation();
+
+        this.container.addEventListener("mousedown", mouseDownListener);
+        this.container.addEventListener("click", clickListener);
+
+        this.cleanups.push(
+            () => this.container.removeEventListener("mousedown", mouseDownListener),
+            () => this.container.removeEventListener("click", clickListener)
+        );
+    }
+
+    /**
+     * Marks nodes and edges that the mutations touched, so only those get redrawn
+     */
+    private onMutations(records: MutationRecord[]): void {
+        const root = this.workflow.workflow;
+
+        for (const record of records) {
+            const target = record.target as Element;
+
+            if (target === root) {
+                this.structureChanged = this.structureChanged || record.type === "childList";
+                continue;
+            }
+
+            const owner = this.findOwner(target);
+
+            // Labels get transformed on zoom as well, but only moving a node or rerouting an edge shows at this scale
+            if (owner && (record.type === "childList" || target === owner || record.attributeName === "d")) {
+                this.dirty.add(owner);
+            }
+        }
+
+        this.scheduleRedraw();
+    }
+
+    /**
+     * Finds the node or edge that the given element is a part of
+     */
+    private findOwner(el: Element): Element | undefined {
+        const root = this.workflow.workflow;
+
+        while (el && el.parentNode !== root) {
+            el = el.parentNode as Element;
+        }
+
+        return el && (el.classList.contains("node") || el.classList.contains("edge")) ? el : undefined;
+    }
+
+    /**
+     * Makes shapes for nodes and edges that were added to the canvas and removes shapes of those that are gone
+     */
+    private syncShapes(): void {
+        const ns      = "http://www.w3.org/2000/svg";
+        const present = new Set<Element>();
+
+        for (const el of Array.from(this.workflow.workflow.children)) {
+            const isNode = el.classList.contains("node");
+
+            if (!isNode && !el.classList.contains("edge")) {
+                continue;
+            }
+
+            present.add(el);
+
+            if (!this.shapes.has(el)) {
+                const shape = document.createElementNS(ns, isNode ? "circle" : "path") as SVGElement;
+                shape.classList.add(isNode ? this.css.node : this.css.edge);
+
+                (isNode ? this.nodeLayer : this.edgeLayer).appendChild(shape);
+
+                this.shapes.set(el, shape);
+                this.dirty.add(el);
+            }
+        }
+
+        this.shapes.forEach((shape, el) => {
+            if (!present.has(el)) {
+                shape.remove();
+                this.shapes.delete(el);
+                this.dirty.delete(el);
+            }
+        });
+
+        this.structureChanged = false;
+    }
+
+    /**
+     * Copies the position of a node or the path of an edge, leaving out everything that can't be seen at that scale
+     */
+    private updateShape(el: Element): void {
+        const shape = this.shapes.get(el);
+
+        if (!shape) {
+            return;
+        }
+
+        if (el.classList.contains("edge")) {
+            const path = el.querySelector(".sub-edge.inner");
+            shape.setAttribute("d", path ? path.getAttribute("d") : "");
+            return;
+        }
+
+        const matrix = (el as SVGGElement).transform.baseVal.getItem(0).matrix;
+        const outer  = el.querySelector(".outer");
+
+        shape.setAttribute("cx", String(matrix.e));
+        shape.setAttribute("cy", String(matrix.f));
+        shape.setAttribute("r", outer ? outer.getAttribute("r") : "30");
+    }
+
+    private onMouseDown(ev: MouseEvent): void {
+
+        // Canvas panning and selection listen on the SVG root, this is not meant for them
+        ev.stopPropagation();
+        ev.preventDefault();
+
+        const move = (moveEvent: MouseEvent) => this.panTo(moveEvent.clientX, moveEvent.clientY);
+        const up   = () => {
+            document.removeEventListener("mousemove", move);
+            document.removeEventListener("mouseup", up);
+        };
+
+        document.addEventListener("mousemove", move);
+        document.addEventListener("mouseup", up);
+
+        this.panTo(ev.clientX, ev.clientY);
+    }
+
+    /**
+     * Moves the canvas so that the graph point under the given minimap point ends up in the middle of it
+     */
+    private panTo(clientX: number, clientY: number): void {
+        const point = this.overview.createSVGPoint();
+        point.x     = clientX;
+        point.y     = clientY;
+
+        const graphPoint = point.matrixTransform(this.overview.getScreenCTM().inverse());
+        const svgRect    = this.workflow.svgRoot.getBoundingClientRect();
+        const matrix     = this.workflow.workflow.transform.baseVal.getItem(0).matrix;
+
+        matrix.e = svgRect.width / 2 - graphPoint.x * matrix.a;
+        matrix.f = svgRect.height / 2 - graphPoint.y * matrix.a;
+    }
+}
@@ -0,0 +1,19 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}                           from "cwlts/models";
+import {MinimapPlugin, SVGNodeMovePlugin, Workflow} from "../../../";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const minimap = new MinimapPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [minimap, new SVGNodeMovePlugin()]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, minimap});
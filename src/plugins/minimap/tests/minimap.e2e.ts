@@ -0,0 +1,125 @@
+import {browser, by, element} from "protractor";
+import {serveCompiled}        from "../../../utils/test-utils";
+
+describe("Minimap", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    /**
+     * Reads the viewport rectangle of the minimap along with the canvas transform, in graph coordinates
+     */
+    function readViewport(): Promise<any> {
+        return browser.executeScript(() => {
+            const rect   = document.querySelector(".__minimap-viewport");
+            const matrix = (window as any).wf.workflow.transform.baseVal.getItem(0).matrix;
+
+            return {
+                x: Number(rect.getAttribute("x")),
+                y: Number(rect.getAttribute("y")),
+                width: Number(rect.getAttribute("width")),
+                height: Number(rect.getAttribute("height")),
+                scale: matrix.a,
+                panX: matrix.e,
+                panY: matrix.f
+            };
+        }) as Promise<any>;
+    }
+
+    it("follows zooming and panning with the viewport rectangle", async function () {
+
+        await browser.sleep(100);
+        const before = await readViewport();
+
+        await browser.executeScript(() => {
+            const {wf} = window as any;
+
+            wf.scale = wf.scale * 2;
+
+            const matrix = wf.workflow.transform.baseVal.getItem(0).matrix;
+            matrix.e += 50;
+            matrix.f -= 30;
+        });
+
+        await browser.sleep(100);
+        const after = await readViewport();
+
+        expect(after.width).toBeCloseTo(before.width / 2, 3);
+        expect(after.height).toBeCloseTo(before.height / 2, 3);
+        expect(after.x).toBeCloseTo(-after.panX / after.scale, 3);
+        expect(after.y).toBeCloseTo(-after.panY / after.scale, 3);
+    });
+
+    it("pans the canvas to the point that gets clicked in the minimap", async function () {
+
+        await browser.sleep(100);
+
+        // Clicking where a node is drawn in the minimap should bring that node to the middle of the canvas
+        const target = await browser.executeScript(() => {
+            const shapes = document.querySelectorAll(".__minimap-node");
+            const shape  = shapes[shapes.length - 1];
+            const svg    = document.getElementById("svg").getBoundingClientRect();
+            const bounds = shape.getBoundingClientRect();
+
+            return {
+                x: Math.round(bounds.left + bounds.width / 2 - svg.left),
+                y: Math.round(bounds.top + bounds.height / 2 - svg.top),
+                cx: Number(shape.getAttribute("cx")),
+                cy: Number(shape.getAttribute("cy"))
+            };
+        }) as any;
+
+        await browser.actions()
+            .mouseMove(element(by.css("#svg")), {x: target.x, y: target.y})
+            .mouseDown()
+            .mouseUp()
+            .perform();
+
+        const center = await browser.executeScript(() => {
+            const svg = document.getElementById("svg").getBoundingClientRect();
+            return (window as any).wf.transformScreenCTMtoCanvas(svg.left + svg.width / 2, svg.top + svg.height / 2);
+        }) as any;
+
+        // A pixel in the minimap covers several graph units, so the click lands only roughly on the node center
+        expect(Math.abs(center.x - target.cx)).toBeLessThan(10);
+        expect(Math.abs(center.y - target.cy)).toBeLessThan(10);
+    });
+
+    it("moves a node in the overview once it gets moved on the canvas", async function () {
+
+        await browser.sleep(100);
+
+        const readShape = () => browser.executeScript(() => {
+            const node   = document.querySelector(`.node[data-id="idle"]`) as SVGGElement;
+            const matrix = node.transform.baseVal.getItem(0).matrix;
+            const shapes = Array.prototype.slice.call(document.querySelectorAll(".__minimap-node"));
+            const shape  = shapes.filter(s => Number(s.getAttribute("cx")) === matrix.e && Number(s.getAttribute("cy")) === matrix.f)[0];
+
+            return shape ? {x: Number(shape.getAttribute("cx")), y: Number(shape.getAttribute("cy"))} : undefined;
+        }) as any;
+
+        const before = await readShape();
+
+        await browser.actions()
+            .mouseDown(element(by.css("[data-id='idle'] .inner")))
+            .mouseMove({x: 80, y: 60})
+            .mouseUp()
+            .perform();
+
+        await browser.sleep(100);
+        const after = await readShape();
+
+        expect(before).toBeDefined();
+        expect(after).toBeDefined();
+        expect(after.x).toBeGreaterThan(before.x);
+        expect(after.y).toBeGreaterThan(before.y);
+    });
+});
@@ -0,0 +1,342 @@
+import {
+    CommandLineToolModel,
+    StepModel,
+    WorkflowInputParameterModel,
+    WorkflowModel,
+    WorkflowOutputParameterModel
+} from "cwlts/models";
+import {V1WorkflowInputParameterModel, V1WorkflowOutputParameterModel} from "cwlts/models/v1.0";
+import {NodeDataModel}                                                  from "../../graph/graph-node";
+import {Workflow}                                                       from "../../graph/workflow";
+import {HtmlUtils}                                                      from "../../utils/html-utils";
+import {PluginBase}                                                     from "../plugin-base";
+
+export interface NodeInspectorField {
+
+    /** Name of the field, shown above its value */
+    label: string;
+
+    /** Plain text, lists are shown one item per line */
+    value: string | string[];
+}
+
+/**
+ * Makes fields to show for a node, or nothing if the section doesn't apply to it
+ */
+export type NodeInspectorSection = (node: NodeDataModel) => NodeInspectorField[] | undefined;
+
+export interface NodeInspectorPluginParams {
+
+    /** How long the pointer should rest on a node before the card shows up, in milliseconds */
+    hoverDelay?: number,
+
+    /** How long a node should be pressed on touch screens for the card to show up, in milliseconds */
+    longPressDuration?: number,
+
+    /** Width of the card in pixels */
+    width?: number,
+
+    /** Additional sections, shown after the built-in ones */
+    sections?: NodeInspectorSection[]
+}
+
+/**
+ * Shows a card with details about a node when the pointer rests on it, or when it gets long-pressed.
+ *
+ * Steps show their description, the class of the app they run, Docker image, resources, other requirements
+ * and their ports. Workflow inputs and outputs show their type, format and secondary files.
+ * Apps can add their own fields through {@link addSection}.
+ */
+export class NodeInspectorPlugin extends PluginBase {
+
+    private hoverDelay        = 400;
+    private longPressDuration = 500;
+    private width             = 260;
+    private sections: NodeInspectorSection[] = [];
+
+    private svg: SVGSVGElement;
+
+    private card: SVGForeignObjectElement;
+
+    /** Node whose card is shown or about to be shown */
+    private inspectedNode: SVGGElement;
+
+    private showTimeout: number;
+
+    private cleanups: Function[] = [];
+
+    private css = {
+        plugin: "__plugin-node-inspector",
+        inspector: "__node-inspector-plugin",
+        card: "__node-inspector-card",
+        title: "__node-inspector-title",
+        kind: "__node-inspector-kind"
+    };
+
+    constructor(parameters: NodeInspectorPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+
+        // Don't share the array with whoever passed it in, sections can be added later on
+        this.sections = [
+            NodeInspectorPlugin.describeStep,
+            NodeInspectorPlugin.describeIO,
+            ...this.sections
+        ];
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.svg = this.workflow.svgRoot;
+        this.svg.classList.add(this.css.plugin);
+
+        const listeners = {
+            mouseover: (ev: MouseEvent) => this.onPointerEnter(ev, this.hoverDelay),
+            mouseout: this.onMouseOut.bind(this),
+            touchstart: (ev: TouchEvent) => this.onPointerEnter(ev, this.longPressDuration),
+            touchend: () => this.cancelShow(),
+            touchmove: () => this.hide(),
+
+            // The card stays where it was shown, so it would be misplaced once the canvas moves
+            mousedown: () => this.hide(),
+            mousewheel: () => this.hide()
+        };
+
+        for (const event in listeners) {
+            this.svg.addEventListener(event, listeners[event]);
+            this.cleanups.push(() => this.svg.removeEventListener(event, listeners[event]));
+        }
+    }
+
+    afterRender(): void {
+        if (this.inspectedNode && !this.svg.contains(this.inspectedNode)) {
+            this.hide();
+        }
+    }
+
+    destroy(): void {
+        this.hide();
+        this.svg.classList.remove(this.css.plugin);
+
+        for (const fn of this.cleanups) {
+            fn();
+        }
+
+        this.cleanups = [];
+    }
+
+    /**
+     * Adds fields that the app wants to show, after the ones that are already there
+     */
+    addSection(section: NodeInspectorSection): void {
+        this.sections.push(section);
+    }
+
+    /**
+     * Shows the card for the given node right away
+     * @param connectionID connection ID of the node
+     */
+    show(connectionID: string): void {
+        const node  = this.svg.querySelector(`.node[data-connection-id="${connectionID}"]`) as SVGGElement;
+        const model = this.workflow.model.findById(connectionID) as NodeDataModel;
+
+        if (!node || !model) {
+            return;
+        }
+
+        this.hide();
+
+        this.inspectedNode = node;
+
+        const ns  = "http://www.w3.org/2000/svg";
+        this.card = document.createElementNS(ns, "foreignObject");
+        this.card.classList.add(this.css.inspector);
+        this.card.setAttribute("data-no-export", "");
+        this.card.setAttribute("width", String(this.width));
+
+        // Give the content enough room to lay out, so it can be measured
+        this.card.setAttribute("height", String(this.svg.getBoundingClientRect().height));
+        this.card.innerHTML = `<div xmlns="http://www.w3.org/1999/xhtml" class="${this.css.card}">${this.makeContentTemplate(model)}</div>`;
+
+        this.svg.appendChild(this.card);
+
+        const height = (this.card.firstElementChild as HTMLElement).offsetHeight;
+        this.card.setAttribute("height", String(height));
+
+        this.placeNextTo(node, height);
+    }
+
+    hide(): void {
+        this.cancelShow();
+
+        if (this.card) {
+            this.card.remove();
+        }
+
+        this.card          = undefined;
+        this.inspectedNode = undefined;
+    }
+
+    private onPointerEnter(ev: Event, delay: number): void {
+        const node = this.workflow.findParent(ev.target as Element, "node");
+
+        if (!node || node === this.inspectedNode) {
+            return;
+        }
+
+        this.hide();
+
+        this.inspectedNode = node;
+        this.showTimeout   = window.setTimeout(() => this.show(node.getAttribute("data-connection-id")), delay);
+    }
+
+    private onMouseOut(ev: MouseEvent): void {
+        const node = this.workflow.findParent(ev.target as Element, "node");
+
+        // Moving between elements of the same node is not leaving it
+        if (node && node === this.inspectedNode && !node.contains(ev.relatedTarget as Node)) {
+            this.hide();
+        }
+    }
+
+    private cancelShow(): void {
+        clearTimeout(this.showTimeout);
+        this.showTimeout = undefined;
+
+        if (!this.card) {
+            this.inspectedNode = undefined;
+        }
+    }
+
+    /**
+     * Puts the card on the right side of the node, or on its left side if there's no room, keeping it within the canvas
+     */
+    private placeNextTo(node: SVGGElement, height: number): void {
+        const canvas = this.svg.getBoundingClientRect();
+        const rect   = node.querySelector(".outer").getBoundingClientRect();
+        const gap    = 10;
+
+        let x = rect.right - canvas.left + gap;
+        if (x + this.width > canvas.width) {
+            x = rect.left - canvas.left - gap - this.width;
+        }
+
+        const y = rect.top - canvas.top + rect.height / 2 - height / 2;
+
+        this.card.setAttribute("x", String(Math.max(0, x)));
+        this.card.setAttribute("y", String(Math.max(0, Math.min(y, canvas.height - height))));
+    }
+
+    private makeContentTemplate(model: NodeDataModel): string {
+        let kind = "Step";
+
+        if (model instanceof WorkflowInputParameterModel) {
+            kind = "Workflow input";
+        } else if (model instanceof WorkflowOutputParameterModel) {
+            kind = "Workflow output";
+        }
+
+        const fields = this.sections
+            .map(section => section(model) || [])
+            .reduce((acc, sectionFields) => acc.concat(sectionFields), [])
+            .filter(field => Array.isArray(field.value) ? field.value.length : field.value);
+
+        const fieldTemplates = fields.map(field => {
+            const value = Array.isArray(field.value) ? field.value.join("\n") : field.value;
+
+            return `<dt>${HtmlUtils.escapeHTML(field.label)}</dt><dd>${HtmlUtils.escapeHTML(value)}</dd>`;
+        }).join("");
+
+        return `
+            <h4 class="${this.css.title}">${HtmlUtils.escapeHTML(model.label || model.id)}</h4>
+            <div class="${this.css.kind}">${kind}</div>
+            <dl>${fieldTemplates}</dl>
+        `;
+    }
+
+    private static describeStep(node: NodeDataModel): NodeInspectorField[] | undefined {
+        if (!(node instanceof StepModel)) {
+            return undefined;
+        }
+
+        const run  = node.run;
+        const tool = run instanceof CommandLineToolModel ? run : undefined;
+
+        const requirements = [
+            ...(node.requirements || []),
+            ...(node.hints || []),
+            ...(tool ? tool.requirements : []),
+            ...(run instanceof CommandLineToolModel || run instanceof WorkflowModel ? run.hints : [])
+        ];
+
+        // Tools keep their Docker image and resources apart from the other requirements
+        const docker    = tool && tool.docker;
+        const resources = tool && tool.resources && tool.resources.serialize() || {};
+        const others    = requirements
+            .map(req => req.class)
+            .filter(cls => cls && cls !== "DockerRequirement" && cls !== "ResourceRequirement");
+
+        const resourceValues = Object.keys(resources)
+            .filter(key => key !== "class" && resources[key] !== undefined)
+            .map(key => `${key}: ${NodeInspectorPlugin.stringify(resources[key])}`);
+
+        return [
+            {label: "Description", value: node.description || run && run.description || ""},
+            {label: "Runs", value: run && run.class || ""},
+            {label: "Docker image", value: docker && (docker.dockerPull || docker.dockerImageId) || ""},
+            {label: "Resources", value: resourceValues},
+            {label: "Requirements", value: others.filter((cls, index) => others.indexOf(cls) === index)},
+            {label: "Inputs", value: node.in.map(port => NodeInspectorPlugin.describePort(port))},
+            {label: "Outputs", value: node.out.map(port => NodeInspectorPlugin.describePort(port))}
+        ];
+    }
+
+    private static describeIO(node: NodeDataModel): NodeInspectorField[] | undefined {
+        if (node instanceof StepModel) {
+            return undefined;
+        }
+
+        // Only CWL v1.0 has secondary files on workflow inputs and outputs
+        const secondaryFiles = node instanceof V1WorkflowInputParameterModel || node instanceof V1WorkflowOutputParameterModel
+            ? node.secondaryFiles || []
+            : [];
+
+        return [
+            {label: "Description", value: node.description || ""},
+            {label: "Type", value: NodeInspectorPlugin.describeType(node.type)},
+            {label: "Format", value: node.fileTypes || []},
+            {label: "Secondary files", value: secondaryFiles.map(file => NodeInspectorPlugin.stringify(file))}
+        ];
+    }
+
+    private static describePort(port: { id: string, type?: any }): string {
+        const type = NodeInspectorPlugin.describeType(port.type);
+
+        return type ? `${port.id}: ${type}` : port.id;
+    }
+
+    /**
+     * Writes a type the way it would be written in CWL shorthand, like “File[]” or “int?”
+     */
+    private static describeType(type?: { type?: string, items?: string, isNullable?: boolean }): string {
+        if (!type || !type.type) {
+            return "";
+        }
+
+        const name = type.type === "array" && type.items ? `${type.items}[]` : type.type;
+
+        return type.isNullable ? name + "?" : name;
+    }
+
+    /**
+     * Makes text out of values that can be expressions or plain values
+     */
+    private static stringify(value: any): string {
+        if (value && typeof value.serialize === "function") {
+            value = value.serialize();
+        }
+
+        return typeof value === "object" ? JSON.stringify(value) : String(value);
+    }
+}
@@ -0,0 +1,23 @@
+import "../../../assets/styles/theme";
+import "../theme";
+import {WorkflowFactory}     from "cwlts/models";
+import {SvgDumper, Workflow} from "../../../";
+import {NodeInspectorPlugin} from "../node-inspector";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const inspector = new NodeInspectorPlugin({
+    hoverDelay: 0
+});
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [inspector]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, inspector, SvgDumper});
@@ -0,0 +1,81 @@
+import {browser, by, element} from "protractor";
+import {serveCompiled}        from "../../../utils/test-utils";
+
+describe("Node inspector", () => {
+
+    let server;
+
+    const card = by.css(".__node-inspector-card");
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("shows details of a step when the pointer rests on it", async function () {
+
+        await browser.actions().mouseMove(element(by.css("[data-id='print'] .inner"))).perform();
+        await browser.sleep(100);
+
+        const text = await element(card).getText();
+
+        expect(text).toContain("Prints the message");
+        expect(text).toContain("ubuntu:16.04");
+        expect(text).toContain("coresMin: 2");
+        expect(text).toContain("message: string");
+    });
+
+    it("hides the card once the pointer leaves the node", async function () {
+
+        await browser.actions().mouseMove(element(by.css("[data-id='print'] .inner"))).perform();
+        await browser.sleep(100);
+
+        expect(await element.all(card).count()).toBe(1);
+
+        await browser.actions().mouseMove({x: 300, y: 300}).perform();
+
+        expect(await element.all(card).count()).toBe(0);
+    });
+
+    it("shows fields from custom sections on nodes they apply to", async function () {
+
+        const texts = await browser.executeScript(() => {
+            const {inspector} = window as any;
+            const cardText    = () => document.querySelector(".__node-inspector-card").textContent;
+
+            inspector.addSection(node => node.id === "print" ? [{label: "Owner", value: "sequencing lab"}] : undefined);
+
+            inspector.show("print");
+            const print = cardText();
+
+            inspector.show("idle");
+            const idle = cardText();
+
+            inspector.hide();
+
+            return {print, idle};
+        }) as any;
+
+        expect(texts.print).toContain("Owner");
+        expect(texts.print).toContain("sequencing lab");
+        expect(texts.idle).not.toContain("Owner");
+        expect(await element.all(card).count()).toBe(0);
+    });
+
+    it("leaves the card out of exported pictures", async function () {
+
+        const dump = await browser.executeScript(() => {
+            const {inspector, SvgDumper} = window as any;
+
+            inspector.show("print");
+
+            return new SvgDumper(document.getElementById("svg")).dump();
+        }) as string;
+
+        expect(dump).not.toContain("__node-inspector-card");
+    });
+});
@@ -1,16 +1,37 @@
-import {Workflow}   from "../../";
-import {PluginBase} from "../plugin-base";
-import {EdgePanner} from "../../behaviors/edge-panning";
+import {Workflow}         from "../../";
+import {PluginBase}       from "../plugin-base";
+import {EdgePanner}       from "../../behaviors/edge-panning";
+import {NodeMoveChange}   from "../plugin";
+import {EdgeObstacle}     from "../../graph/edge-router";
+import {GraphOrientation} from "../../graph/orientation";
+import {NodePosition}     from "../../graph/graph-node";
+import {SelectionPlugin}  from "../selection/selection";
+
+type EdgeEnds = { start: NodePosition, end: NodePosition };
 
 export interface ConstructorParams {
     movementSpeed?: number,
-    scrollMargin?: number
+    scrollMargin?: number,
+
+    /** Size of grid cells in canvas units, dropped nodes snap to the grid, 0 turns the grid off */
+    gridSize?: number,
+
+    /** Whether to draw the grid behind the graph */
+    showGrid?: boolean,
+
+    /** Whether to show guides when the dragged node lines up with another one, and snap to them */
+    alignmentGuides?: boolean,
+
+    /** How close the dragged node has to get to lining up with another one before it snaps to it, in pixels */
+    guideSnapDistance?: number
 }
 
 /**
  * This plugin makes node dragging and movement possible.
+ * If the dragged node is selected in {@link SelectionPlugin}, all selected nodes are moved along with it.
  *
- * @FIXME: attach events for before and after change
+ * Nodes can be snapped to a grid when they are dropped, and to guides that show up while the center of the dragged node
+ * lines up with the center of another node. Whatever snaps, nodes that move along keep their places relative to the dragged one.
  */
 export class SVGNodeMovePlugin extends PluginBase {
 
@@ -20,29 +41,66 @@ export class SVGNodeMovePlugin extends PluginBase {
     /** Difference in movement on the Y axis since drag start, adapted for scale and possibly panned distance */
     private sdy: number;
 
-    /** Stored onDragStart so we can put node to a fixed position determined by startX + ∆x */
-    private startX: number;
-
-    /** Stored onDragStart so we can put node to a fixed position determined by startY + ∆y */
-    private startY: number;
-
     /** How far from the edge of the viewport does mouse need to be before panning is triggered */
     private scrollMargin = 50;
 
     /** How fast does workflow move while panning */
     private movementSpeed = 10;
 
-    /** Holds an element that is currently being dragged. Stored onDragStart and translated afterwards. */
-    private movingNode: SVGGElement;
+    private gridSize          = 0;
+    private showGrid          = true;
+    private alignmentGuides   = false;
+    private guideSnapDistance = 8;
+
+    /** Node that the drag started on, the one that snaps to the grid and guides */
+    private draggedNode: SVGGElement;
+
+    /** Centers of nodes that stay in place, which the dragged node can line up with */
+    private alignmentTargets: NodePosition[];
+
+    /** Axes on which the dragged node is lined up with other nodes, those don't snap to the grid */
+    private alignedAxes: { x: boolean, y: boolean };
+
+    /** Lines that show which nodes the dragged one is lined up with */
+    private guides: SVGGElement;
+
+    /** Pattern of grid lines, and the rectangle that fills the canvas with it */
+    private gridPattern: SVGPatternElement;
+    private grid: SVGRectElement;
+
+    /** Watches the canvas transform, so the grid can follow zooming and panning */
+    private gridObserver: MutationObserver;
+
+    private css = {
+        plugin: "__plugin-node-move",
+        grid: "__node-move-grid",
+        gridPattern: "__node-move-grid-pattern",
+        guides: "__node-move-guides"
+    };
+
+    /**
+     * Elements that are currently being dragged, pointing to their positions on drag start,
+     * so we can put each of them to a fixed position determined by start + ∆.
+     */
+    private movingNodes: Map<SVGGElement, NodePosition>;
 
     /** Stored onDragStart to detect collision with viewport edges */
     private boundingClientRect: ClientRect;
 
-    /** Cache input edges and their parsed bezier curve parameters so we don't query for them on each mouse move */
-    private inputEdges: Map<SVGPathElement, number[]>;
+    /** Cache input edges and their ends on drag start so we don't query for them on each mouse move */
+    private inputEdges: Map<SVGPathElement, EdgeEnds>;
+
+    /** Cache output edges and their ends on drag start so we don't query for them on each mouse move */
+    private outputEdges: Map<SVGPathElement, EdgeEnds>;
+
+    /** Cache edges between moved nodes, both of their ends move by the same amount */
+    private innerEdges: Map<SVGPathElement, EdgeEnds>;
 
-    /** Cache output edges and their parsed bezier curve parameters so we don't query for them on each mouse move */
-    private outputEdges: Map<SVGPathElement, number[]>;
+    /**
+     * Circles of all nodes, kept only if the edge router goes around them.
+     * Moving nodes update their own circles, so the router doesn't have to look at the whole graph on each mouse move.
+     */
+    private obstacles: Map<SVGGElement, EdgeObstacle>;
 
     /** Workflow panning at the time of onDragStart, used to adjust ∆x and ∆y while panning */
     private startWorkflowTranslation: { x: number, y: number };
@@ -82,15 +140,105 @@ export class SVGNodeMovePlugin extends PluginBase {
 
     destroy(): void {
         this.detachDrag();
+        this.removeGrid();
+        this.workflow.svgRoot.classList.remove(this.css.plugin);
     }
 
     registerWorkflow(workflow: Workflow): void {
         super.registerWorkflow(workflow);
 
+        this.workflow.svgRoot.classList.add(this.css.plugin);
+
         this.edgePanner = new EdgePanner(this.workflow, {
             scrollMargin: this.scrollMargin,
             movementSpeed: this.movementSpeed
         });
+
+        this.setGridSize(this.gridSize);
+    }
+
+    /**
+     * Changes the size of grid cells in canvas units, 0 turns the grid off.
+     * Nodes that are already on the canvas stay where they are until they are moved.
+     */
+    setGridSize(size: number): void {
+        this.gridSize = Math.max(size || 0, 0);
+
+        this.removeGrid();
+
+        if (this.gridSize > 0 && this.showGrid) {
+            this.createGrid();
+        }
+    }
+
+    getGridSize(): number {
+        return this.gridSize;
+    }
+
+    private createGrid(): void {
+        const ns  = "http://www.w3.org/2000/svg";
+        const svg = this.workflow.svgRoot;
+
+        const defs       = document.createElementNS(ns, "defs");
+        this.gridPattern = document.createElementNS(ns, "pattern") as SVGPatternElement;
+        this.gridPattern.id = this.workflow.svgID + "-node-move-grid";
+        this.gridPattern.classList.add(this.css.gridPattern);
+        this.gridPattern.setAttribute("patternUnits", "userSpaceOnUse");
+        this.gridPattern.appendChild(document.createElementNS(ns, "path"));
+        defs.appendChild(this.gridPattern);
+
+        this.grid = document.createElementNS(ns, "rect") as SVGRectElement;
+        this.grid.classList.add(this.css.grid);
+        this.grid.setAttribute("width", "100%");
+        this.grid.setAttribute("height", "100%");
+        this.grid.setAttribute("fill", `url(#${this.gridPattern.id})`);
+
+        // The grid is an editing aid, so exported pictures show only the graph
+        this.gridPattern.setAttribute("data-no-export", "");
+        this.grid.setAttribute("data-no-export", "");
+
+        // The grid lies behind the graph, and lets clicks through to the pan handle underneath
+        svg.insertBefore(defs, svg.firstChild);
+        svg.insertBefore(this.grid, this.workflow.workflow);
+
+        this.gridObserver = new MutationObserver(() => this.updateGrid());
+        this.gridObserver.observe(this.workflow.workflow, {attributes: true, attributeFilter: ["transform"]});
+
+        this.updateGrid();
+    }
+
+    private removeGrid(): void {
+        if (this.gridObserver) {
+            this.gridObserver.disconnect();
+        }
+
+        if (this.grid) {
+            this.grid.remove();
+            this.gridPattern.parentElement.remove();
+        }
+
+        delete this.gridObserver;
+        delete this.grid;
+        delete this.gridPattern;
+    }
+
+    /**
+     * Lines the grid up with the canvas. When zoomed out so far that cells get too dense to see,
+     * only every second, fourth and so on line gets drawn.
+     */
+    private updateGrid(): void {
+        const matrix = this.getWorkflowMatrix();
+
+        let cell = this.gridSize * matrix.a;
+        while (cell < 8) {
+            cell *= 2;
+        }
+
+        this.gridPattern.setAttribute("x", String(matrix.e));
+        this.gridPattern.setAttribute("y", String(matrix.f));
+        this.gridPattern.setAttribute("width", String(cell));
+        this.gridPattern.setAttribute("height", String(cell));
+        this.gridPattern.firstElementChild.setAttribute("d", `M ${cell} 0 L 0 0 0 ${cell}`);
     }
 
     private detachDrag() {
@@ -119,6 +267,11 @@ export class SVGNodeMovePlugin extends PluginBase {
 
     private onMove(dx: number, dy: number, ev: MouseEvent): void {
 
+        /** Move was vetoed on start, so nodes stay where they are */
+        if (!this.movingNodes) {
+            return;
+        }
+
         /** We will use workflow scale to determine how our mouse movement translate to svg proportions */
         const scale = this.workflow.scale;
 
@@ -133,7 +286,7 @@ export class SVGNodeMovePlugin extends PluginBase {
             this.sdx += sdx;
             this.sdy += sdy;
 
-            this.translateNodeBy(this.movingNode, sdx, sdy);
+            this.movingNodes.forEach((start, node) => this.translateNodeBy(node, sdx, sdy));
             this.redrawEdges(this.sdx, this.sdy);
         });
 
@@ -149,10 +302,11 @@ export class SVGNodeMovePlugin extends PluginBase {
         this.sdx = (dx - matrixMovement.x) / scale;
         this.sdy = (dy - matrixMovement.y) / scale;
 
-        const moveX = this.sdx + this.startX;
-        const moveY = this.sdy + this.startY;
+        if (this.alignmentTargets) {
+            this.alignToTargets();
+        }
 
-        this.translateNodeTo(this.movingNode, moveX, moveY);
+        this.movingNodes.forEach((start, node) => this.translateNodeTo(node, start.x + this.sdx, start.y + this.sdy));
         this.redrawEdges(this.sdx, this.sdy);
     }
 
@@ -162,21 +316,36 @@ export class SVGNodeMovePlugin extends PluginBase {
      */
     private onMoveStart(event: MouseEvent, handle: SVGGElement): void {
 
-        /** We will query the SVG dom for edges that we need to move, so store svg element for easy access */
-        const svg = this.workflow.svgRoot;
-
-        document.addEventListener("mousewheel", this.wheelPrevent, true);
-
         /** Our drag handle is not the whole node because that would include ports and labels, but a child of it*/
         const node = handle.parentNode as SVGGElement;
 
         /** Store initial transform values so we know how much we've moved relative from the starting position */
-        const nodeMatrix = node.transform.baseVal.getItem(0).matrix;
-        this.startX      = nodeMatrix.e;
-        this.startY      = nodeMatrix.f;
+        const movingNodes = new Map<SVGGElement, NodePosition>();
+        for (const el of this.findNodesToMove(node)) {
+            const matrix = el.transform.baseVal.getItem(0).matrix;
+            movingNodes.set(el, {x: matrix.e, y: matrix.f});
+        }
+
+        const change: NodeMoveChange = {
+            type: "node-move",
+            nodeIDs: [],
+            positions: []
+        };
+
+        movingNodes.forEach((before, el) => {
+            const id = el.getAttribute("data-connection-id");
+            change.nodeIDs.push(id);
+            change.positions.push({id, before});
+        });
+
+        if (!this.onBeforeChange(change)) {
+            return;
+        }
 
-        /** We have to query for edges that are attached to this node because we will move them as well */
-        const nodeID = node.getAttribute("data-id");
+        /** We will query the SVG dom for edges that we need to move, so store svg element for easy access */
+        const svg = this.workflow.svgRoot;
+
+        document.addEventListener("mousewheel", this.wheelPrevent, true);
 
         /**
          * When user drags the node to the edge and waits while workflow pans to the side,
@@ -192,26 +361,158 @@ export class SVGNodeMovePlugin extends PluginBase {
         this.boundingClientRect = svg.getBoundingClientRect();
 
         /** Node movement can be initiated from both mouse events and animationFrame, so make it accessible */
-        this.movingNode = handle.parentNode as SVGGElement;
+        this.movingNodes = movingNodes;
+        this.draggedNode = node;
+        this.alignedAxes = {x: false, y: false};
+        this.sdx         = 0;
+        this.sdy         = 0;
+
+        if (this.alignmentGuides) {
+            this.alignmentTargets = [];
+
+            for (const el of Array.from(this.workflow.workflow.querySelectorAll(".node")) as SVGGElement[]) {
+                if (!movingNodes.has(el)) {
+                    const matrix = el.transform.baseVal.getItem(0).matrix;
+                    this.alignmentTargets.push({x: matrix.e, y: matrix.f});
+                }
+            }
+
+            this.guides = document.createElementNS("http://www.w3.org/2000/svg", "g") as SVGGElement;
+            this.guides.classList.add(this.css.guides);
+            this.workflow.workflow.appendChild(this.guides);
+        }
 
         /**
-         * While node is being moved, incoming and outgoing edges also need to be moved in order to stay attached.
+         * While nodes are being moved, incoming and outgoing edges also need to be moved in order to stay attached.
          * We don't want to query them all the time, so we cache them in maps that point from their dom elements
-         * to an array of numbers that represent their bezier curves, since we will update those curves.
+         * to their ends, from which the edge router will make new paths.
          */
-        this.inputEdges = new Map();
+        this.inputEdges  = new Map();
         this.outputEdges = new Map();
+        this.innerEdges  = new Map();
+
+        /** We have to query for edges that are attached to moved nodes because we will move them as well */
+        const nodeIDs = Array.from(movingNodes.keys()).map(el => el.getAttribute("data-id"));
 
-        const outputsSelector = `.edge[data-source-node='${nodeID}'] .sub-edge`;
-        const inputsSelector  = `.edge[data-destination-node='${nodeID}'] .sub-edge`;
+        const selectors = nodeIDs.map(nodeID => [
+            `.edge[data-source-node='${nodeID}'] .sub-edge`,
+            `.edge[data-destination-node='${nodeID}'] .sub-edge`
+        ].join(", "));
 
-        const query = svg.querySelectorAll([inputsSelector, outputsSelector].join(", ")) as NodeListOf<SVGPathElement>;
+        const query = svg.querySelectorAll(selectors.join(", ")) as NodeListOf<SVGPathElement>;
+
+        if (this.workflow.edgeRouter.setObstacles) {
+            this.obstacles = this.workflow.getNodeObstacles();
+        }
 
         for (let subEdge of query) {
-            const isInput = subEdge.parentElement.getAttribute("data-destination-node") === nodeID;
-            const path    = subEdge.getAttribute("d").split(" ").map(Number).filter(e => !isNaN(e));
-            isInput ? this.inputEdges.set(subEdge, path) : this.outputEdges.set(subEdge, path);
+            const edge             = subEdge.parentElement;
+            const sourceMoves      = nodeIDs.indexOf(edge.getAttribute("data-source-node")) !== -1;
+            const destinationMoves = nodeIDs.indexOf(edge.getAttribute("data-destination-node")) !== -1;
+            const ends             = SVGNodeMovePlugin.getEdgeEnds(subEdge);
+
+            if (sourceMoves && destinationMoves) {
+                this.innerEdges.set(subEdge, ends);
+            } else if (destinationMoves) {
+                this.inputEdges.set(subEdge, ends);
+            } else {
+                this.outputEdges.set(subEdge, ends);
+            }
+        }
+    }
+
+    /**
+     * All selected nodes move together if the dragged one is among them, otherwise it moves alone
+     */
+    private findNodesToMove(node: SVGGElement): SVGGElement[] {
+        const selectionPlugin = this.workflow.getPlugin(SelectionPlugin);
+        const selection       = selectionPlugin ? selectionPlugin.getSelection() : new Map();
+
+        if (selection.get(node.getAttribute("data-connection-id")) !== "node") {
+            return [node];
+        }
+
+        const nodes = [];
+        selection.forEach((type, connectionID) => {
+            const el = this.workflow.workflow.querySelector(`.node[data-connection-id="${connectionID}"]`);
+            if (type === "node" && el) {
+                nodes.push(el);
+            }
+        });
+
+        return nodes;
+    }
+
+    /**
+     * Adjusts the movement so that the dragged node lines up with the closest node it got near to lining up with,
+     * on either axis, and draws guides through the nodes it lines up with
+     */
+    private alignToTargets(): void {
+        const start    = this.movingNodes.get(this.draggedNode);
+        const position = {x: start.x + this.sdx, y: start.y + this.sdy};
+        const reach    = this.guideSnapDistance / this.workflow.scale;
+
+        let closestX: number;
+        let closestY: number;
+
+        for (const target of this.alignmentTargets) {
+            if (Math.abs(target.x - position.x) <= reach
+                && (closestX === undefined || Math.abs(target.x - position.x) < Math.abs(closestX - position.x))) {
+                closestX = target.x;
+            }
+
+            if (Math.abs(target.y - position.y) <= reach
+                && (closestY === undefined || Math.abs(target.y - position.y) < Math.abs(closestY - position.y))) {
+                closestY = target.y;
+            }
+        }
+
+        this.alignedAxes = {x: closestX !== undefined, y: closestY !== undefined};
+
+        if (this.alignedAxes.x) {
+            this.sdx = closestX - start.x;
         }
+
+        if (this.alignedAxes.y) {
+            this.sdy = closestY - start.y;
+        }
+
+        const aligned = {x: start.x + this.sdx, y: start.y + this.sdy};
+        let template  = "";
+
+        // Guides go from the dragged node to the farthest node it lines up with
+        if (this.alignedAxes.x) {
+            const ys = this.alignmentTargets.filter(target => target.x === closestX).map(target => target.y).concat(aligned.y);
+            template += `<line x1="${closestX}" y1="${Math.min(...ys)}" x2="${closestX}" y2="${Math.max(...ys)}"></line>`;
+        }
+
+        if (this.alignedAxes.y) {
+            const xs = this.alignmentTargets.filter(target => target.y === closestY).map(target => target.x).concat(aligned.x);
+            template += `<line x1="${Math.min(...xs)}" y1="${closestY}" x2="${Math.max(...xs)}" y2="${closestY}"></line>`;
+        }
+
+        this.guides.innerHTML = template;
+    }
+
+    /**
+     * Moves nodes so that the dragged one lands on the grid, except on axes where it is lined up with another node
+     */
+    private snapToGrid(): void {
+        const start = this.movingNodes.get(this.draggedNode);
+        const snap  = (value: number) => Math.round(value / this.gridSize) * this.gridSize;
+
+        const sdx = this.alignedAxes.x ? this.sdx : snap(start.x + this.sdx) - start.x;
+        const sdy = this.alignedAxes.y ? this.sdy : snap(start.y + this.sdy) - start.y;
+
+        if (sdx === this.sdx && sdy === this.sdy) {
+            return;
+        }
+
+        this.sdx = sdx;
+        this.sdy = sdy;
+
+        this.movingNodes.forEach((start, node) => this.translateNodeTo(node, start.x + this.sdx, start.y + this.sdy));
+        this.redrawEdges(this.sdx, this.sdy);
     }
 
     private translateNodeBy(node: SVGGElement, x?: number, y?: number): void {
@@ -228,47 +529,150 @@ export class SVGNodeMovePlugin extends PluginBase {
      * scaled transformation differences, sdx and sdy.
      */
     private redrawEdges(sdx: number, sdy: number): void {
-        this.inputEdges.forEach((p, el) => {
-            const path = Workflow.makeConnectionPath(p[0], p[1], p[6] + sdx, p[7] + sdy);
+        const router    = this.workflow.edgeRouter;
+        const direction = GraphOrientation.getEdgeDirection(this.workflow.orientation);
+
+        if (this.obstacles) {
+            this.movingNodes.forEach((start, node) => {
+                const obstacle = this.obstacles.get(node);
+
+                obstacle.x = start.x + sdx;
+                obstacle.y = start.y + sdy;
+            });
+
+            router.setObstacles(Array.from(this.obstacles.values()));
+        }
+
+        this.inputEdges.forEach(({start, end}, el) => {
+            const path = router.makePath(start.x, start.y, end.x + sdx, end.y + sdy, direction);
             el.setAttribute("d", path);
         });
 
-        this.outputEdges.forEach((p, el) => {
-            const path = Workflow.makeConnectionPath(p[0] + sdx, p[1] + sdy, p[6], p[7]);
+        this.outputEdges.forEach(({start, end}, el) => {
+            const path = router.makePath(start.x + sdx, start.y + sdy, end.x, end.y, direction);
+            el.setAttribute("d", path);
+        });
+
+        this.innerEdges.forEach(({start, end}, el) => {
+            const path = router.makePath(start.x + sdx, start.y + sdy, end.x + sdx, end.y + sdy, direction);
             el.setAttribute("d", path);
         });
     }
 
+    /**
+     * Edges that are not attached to moved nodes may have been going around the place they left,
+     * or may now be in the way of the place they came to, so reroute the ones that pass by either of them.
+     */
+    private rerouteEdgesAroundMovedNodes(): void {
+        const router    = this.workflow.edgeRouter;
+        const direction = GraphOrientation.getEdgeDirection(this.workflow.orientation);
+        const areas     = [] as EdgeObstacle[];
+
+        // Edges keep some distance from nodes they go around, so look a bit further than the node itself
+        this.movingNodes.forEach((start, node) => {
+            const {x, y} = this.obstacles.get(node);
+            const radius = this.obstacles.get(node).radius * 2;
+
+            areas.push({x: start.x, y: start.y, radius}, {x, y, radius});
+        });
+
+        const subEdges = Array.from(this.workflow.workflow.querySelectorAll(".edge .sub-edge")) as SVGPathElement[];
+
+        for (const subEdge of subEdges) {
+            if (this.inputEdges.has(subEdge) || this.outputEdges.has(subEdge) || this.innerEdges.has(subEdge)) {
+                continue;
+            }
+
+            const box       = subEdge.getBBox();
+            const isPassing = areas.some(area => area.x + area.radius > box.x
+                && area.x - area.radius < box.x + box.width
+                && area.y + area.radius > box.y
+                && area.y - area.radius < box.y + box.height);
+
+            if (!isPassing) {
+                continue;
+            }
+
+            const {start, end} = SVGNodeMovePlugin.getEdgeEnds(subEdge);
+            subEdge.setAttribute("d", router.makePath(start.x, start.y, end.x, end.y, direction));
+        }
+    }
+
+    /**
+     * Measures where the edge starts and ends, whatever the shape that the edge router gave it
+     */
+    private static getEdgeEnds(subEdge: SVGPathElement): EdgeEnds {
+        const start = subEdge.getPointAtLength(0);
+        const end   = subEdge.getPointAtLength(subEdge.getTotalLength());
+
+        return {
+            start: {x: start.x, y: start.y},
+            end: {x: end.x, y: end.y}
+        };
+    }
+
     /**
      * Triggered from {@link attachDrag} after move event ends
      */
     private onMoveEnd(): void {
 
+        if (!this.movingNodes) {
+            return;
+        }
+
         this.edgePanner.stop();
 
-        const id        = this.movingNode.getAttribute("data-connection-id");
-        const nodeModel = this.workflow.model.findById(id);
+        // Nodes that were only clicked on stay where they are
+        if (this.gridSize > 0 && (this.sdx !== 0 || this.sdy !== 0)) {
+            this.snapToGrid();
+        }
 
-        if (!nodeModel.customProps) {
-            nodeModel.customProps = {};
+        if (this.guides) {
+            this.guides.remove();
         }
 
-        const matrix = this.movingNode.transform.baseVal.getItem(0).matrix;
+        const change: NodeMoveChange = {
+            type: "node-move",
+            nodeIDs: [],
+            positions: []
+        };
+
+        this.movingNodes.forEach((before, node) => {
+            const id        = node.getAttribute("data-connection-id");
+            const nodeModel = this.workflow.model.findById(id);
+
+            if (!nodeModel.customProps) {
+                nodeModel.customProps = {};
+            }
 
-        Object.assign(nodeModel.customProps, {
-            "sbg:x": matrix.e,
-            "sbg:y": matrix.f,
+            const matrix = node.transform.baseVal.getItem(0).matrix;
+
+            Object.assign(nodeModel.customProps, {
+                "sbg:x": matrix.e,
+                "sbg:y": matrix.f,
+            });
+
+            change.nodeIDs.push(id);
+            change.positions.push({id, before, after: {x: matrix.e, y: matrix.f}});
         });
 
-        this.onAfterChange({type: "node-move"});
+        if (this.obstacles) {
+            this.rerouteEdgesAroundMovedNodes();
+        }
+
+        this.onAfterChange(change);
 
         document.removeEventListener("mousewheel", this.wheelPrevent, true);
 
-        delete this.startX;
-        delete this.startY;
-        delete this.movingNode;
+        delete this.movingNodes;
+        delete this.draggedNode;
+        delete this.alignmentTargets;
+        delete this.alignedAxes;
+        delete this.guides;
         delete this.inputEdges;
         delete this.outputEdges;
+        delete this.innerEdges;
+        delete this.obstacles;
         delete this.boundingClientRect;
         delete this.startWorkflowTranslation;
     }
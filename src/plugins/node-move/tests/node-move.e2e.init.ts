@@ -1,19 +1,22 @@
 import "../../../assets/styles/theme";
-import {WorkflowFactory}   from "cwlts/models";
-import {Workflow}          from "../../../";
-import {SVGNodeMovePlugin} from "../node-move";
+import {WorkflowFactory}                      from "cwlts/models";
+import {SelectionPlugin, SvgDumper, Workflow} from "../../../";
+import {SVGNodeMovePlugin}                    from "../node-move";
 
 const model = WorkflowFactory.from(require(__dirname + "/app.json"));
 
 const svgRoot = document.getElementById("svg") as any;
 
-new Workflow({
+const nodeMove = new SVGNodeMovePlugin({
+    movementSpeed: 10
+});
+
+const selection = new SelectionPlugin();
+
+const wf = new Workflow({
     model: model,
     svgRoot: svgRoot,
-    plugins: [
-        new SVGNodeMovePlugin({
-            movementSpeed: 10
-        })
-    ]
+    plugins: [nodeMove, selection]
 });
 
+Object.assign(window, {wf, nodeMove, selection, SvgDumper});
@@ -33,4 +33,147 @@ describe("Drag and drop", () => {
         expect(newLocation.x).toBeCloseTo(location.x + movement, 1);
         expect(newLocation.y).toBeCloseTo(location.y + movement, 1);
     });
-});
\ No newline at end of file
+
+    it("reports where the node moved from and to", async function () {
+
+        await browser.executeScript(() => {
+            (window as any).wf.on("afterChange", change => (window as any).lastChange = change);
+        });
+
+        const actions = browser.actions();
+        const locator = await element(by.css("[data-id='print'] .inner"));
+
+        await actions
+            .mouseDown(locator)
+            .mouseMove({x: 50, y: 50})
+            .perform();
+
+        await actions.mouseUp().perform();
+
+        const change = await browser.executeScript(() => (window as any).lastChange) as any;
+        const [{before, after}] = change.positions;
+
+        expect(change.type).toBe("node-move");
+        expect(after.x - before.x).toBeGreaterThan(0);
+        expect(after.y - before.y).toBeGreaterThan(0);
+    });
+
+    it("snaps a dropped node to the grid", async function () {
+
+        await browser.executeScript(() => {
+            (window as any).nodeMove.setGridSize(50);
+            (window as any).wf.on("afterChange", change => (window as any).lastChange = change);
+        });
+
+        const actions = browser.actions();
+        const locator = await element(by.css("[data-id='print'] .inner"));
+
+        await actions
+            .mouseDown(locator)
+            .mouseMove({x: 37, y: 23})
+            .perform();
+
+        await actions.mouseUp().perform();
+
+        const change = await browser.executeScript(() => (window as any).lastChange) as any;
+        const [{after}] = change.positions;
+
+        await browser.executeScript(() => (window as any).nodeMove.setGridSize(0));
+
+        expect(Math.abs(after.x % 50)).toBeCloseTo(0, 5);
+        expect(Math.abs(after.y % 50)).toBeCloseTo(0, 5);
+    });
+
+    it("moves all selected nodes together, in a single change", async function () {
+
+        const readState = () => browser.executeScript(() => {
+            const position = id => {
+                const matrix = (document.querySelector(`.node[data-id="${id}"]`) as SVGGElement).transform.baseVal.getItem(0).matrix;
+                return {x: matrix.e, y: matrix.f};
+            };
+            const path = id => document.querySelector(`.edge[data-destination-node="${id}"] .inner`).getAttribute("d");
+
+            return {
+                print: position("print"),
+                shout: position("shout"),
+                message: position("message"),
+                printEdge: path("print"),
+                shoutEdge: path("shout")
+            };
+        }) as any;
+
+        await browser.executeScript(() => {
+            const {wf, selection} = window as any;
+
+            (window as any).changes = [];
+            wf.on("afterChange", change => (window as any).changes.push(change));
+
+            selection.selectStep("print");
+            selection.selectStep("shout");
+        });
+
+        const before = await readState();
+
+        await browser.actions()
+            .mouseDown(element(by.css("[data-id='print'] .inner")))
+            .mouseMove({x: 60, y: 40})
+            .mouseUp()
+            .perform();
+
+        const after   = await readState();
+        const changes = await browser.executeScript(() => (window as any).changes) as any[];
+
+        const printDelta = {x: after.print.x - before.print.x, y: after.print.y - before.print.y};
+        const shoutDelta = {x: after.shout.x - before.shout.x, y: after.shout.y - before.shout.y};
+
+        expect(printDelta.x).toBeGreaterThan(0);
+        expect(printDelta.y).toBeGreaterThan(0);
+        expect(shoutDelta.x).toBeCloseTo(printDelta.x, 5);
+        expect(shoutDelta.y).toBeCloseTo(printDelta.y, 5);
+        expect(after.message).toEqual(before.message);
+
+        // The input stays behind, so edges that lead from it should follow the moved nodes
+        expect(after.printEdge).not.toBe(before.printEdge);
+        expect(after.shoutEdge).not.toBe(before.shoutEdge);
+
+        expect(changes.length).toBe(1);
+        expect(changes[0].type).toBe("node-move");
+        expect(changes[0].nodeIDs.sort()).toEqual(["print", "shout"]);
+    });
+
+    it("leaves the grid out of exported pictures", async function () {
+
+        const dump = await browser.executeScript(() => {
+            const {nodeMove, SvgDumper} = window as any;
+
+            nodeMove.setGridSize(50);
+
+            return new SvgDumper(document.getElementById("svg")).dump();
+        }) as string;
+
+        expect(dump).not.toContain("__node-move-grid");
+    });
+
+    it("leaves a node in place when the move gets vetoed", async function () {
+
+        await browser.executeScript(() => {
+            (window as any).wf.on("beforeChange", change => change.preventDefault());
+        });
+
+        const actions = browser.actions();
+
+        const hisatLocator = await element(by.css("[data-id='print'] .inner"));
+        const location     = await hisatLocator.getLocation();
+
+        await actions
+            .mouseDown(hisatLocator)
+            .mouseMove({x: 100, y: 100})
+            .perform();
+
+        await actions.mouseUp().perform();
+        const newLocation = await hisatLocator.getLocation();
+
+        expect(newLocation.x).toBeCloseTo(location.x, 1);
+        expect(newLocation.y).toBeCloseTo(location.y, 1);
+    });
+});
@@ -5,8 +5,8 @@ export abstract class PluginBase implements SVGPlugin {
 
     protected workflow: Workflow;
 
-    /** plugin should trigger before a change is about to occur on the model */
-    protected onBeforeChange: (change: GraphChange) => void;
+    /** plugin should trigger before a change is about to occur on the model, and abort the change if it returns false */
+    protected onBeforeChange: (change: GraphChange) => boolean;
 
     /** plugin should trigger after a change has occurred on the model */
     protected onAfterChange: (change: GraphChange) => void;
@@ -18,7 +18,7 @@ export abstract class PluginBase implements SVGPlugin {
         this.workflow = workflow;
     }
 
-    registerOnBeforeChange(fn: (change: GraphChange) => void): void {
+    registerOnBeforeChange(fn: (change: GraphChange) => boolean): void {
         this.onBeforeChange = fn;
     }
 
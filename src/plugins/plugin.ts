@@ -1,15 +1,188 @@
-import {Workflow} from '../graph/workflow';
+import {Edge, StepModel, WorkflowInputParameterModel, WorkflowOutputParameterModel} from "cwlts/models";
+import {NodePosition}                                                             from "../graph/graph-node";
+import {Workflow}                                                                 from '../graph/workflow';
+
+export type ConnectionEndpoints = { source: string, destination: string };
+
+export interface NodePositionChange {
+
+    /** Connection ID of the node */
+    id: string;
+
+    /** Position before the change, missing if the node is being created or had no coordinates */
+    before?: NodePosition;
+
+    /** Position after the change, missing on beforeChange or if the node got deleted */
+    after?: NodePosition;
+}
 
 export interface GraphChange {
     type: string;
 
+    /** Connection IDs of nodes that the change affects */
+    nodeIDs?: string[];
+
+    /** Endpoints of connections that the change affects, ordered from the output port to the input port */
+    connections?: ConnectionEndpoints[];
+
+    /** Positions of nodes that the change moves, creates or deletes */
+    positions?: NodePositionChange[];
+}
+
+export interface NodeMoveChange extends GraphChange {
+    type: "node-move";
+    nodeIDs: string[];
+    positions: NodePositionChange[];
+}
+
+export interface ArrangeChange extends GraphChange {
+    type: "arrange";
+    nodeIDs: string[];
+    positions: NodePositionChange[];
+}
+
+/**
+ * Lining up nodes or spreading them evenly, lists only the nodes that got moved
+ */
+export interface AlignChange extends GraphChange {
+    type: "align" | "distribute";
+    nodeIDs: string[];
+    positions: NodePositionChange[];
+}
+
+export interface ConnectChange extends GraphChange {
+    type: "connect";
+    connections: ConnectionEndpoints[];
+}
+
+export interface DisconnectChange extends GraphChange {
+    type: "disconnect";
+    connections: ConnectionEndpoints[];
+}
+
+/**
+ * Removal of nodes, along with all of their connections, and possibly some other connections.
+ */
+export interface DeleteChange extends GraphChange {
+    type: "delete";
+    nodeIDs: string[];
+    connections: ConnectionEndpoints[];
+    positions: NodePositionChange[];
+}
+
+/**
+ * Creation of a workflow input or output by dragging a step port onto the canvas.
+ * The new node is not known before it gets created, so it is listed in nodeIDs, connections and positions
+ * only on afterChange.
+ */
+export interface CreateFromPortChange extends GraphChange {
+    type: "create-input" | "create-output";
+
+    /** Connection ID of the port from which the node is created */
+    port: string;
+
+    nodeIDs: string[];
+    connections: ConnectionEndpoints[];
+    positions: NodePositionChange[];
+}
+
+/**
+ * Insertion of copied nodes and the connections among them.
+ * Pasted nodes get their IDs only once they are created, so they are listed only on afterChange.
+ */
+export interface PasteChange extends GraphChange {
+    type: "paste" | "duplicate";
+    nodeIDs: string[];
+    connections: ConnectionEndpoints[];
+    positions: NodePositionChange[];
+}
+
+/**
+ * Creation, update or removal of a note or a frame, see {@link AnnotationPlugin}
+ */
+export interface AnnotationChange extends GraphChange {
+    type: "annotation-create" | "annotation-update" | "annotation-delete";
+    annotationID: string;
+    annotationType: "note" | "frame";
+
+    /** Text of a note or label of a frame, as it is after the change, or as it was before the annotation got removed */
+    text: string;
+}
+
+export interface HistoryChange extends GraphChange {
+    type: "undo" | "redo";
+}
+
+/**
+ * Changes that built-in plugins emit, discriminated by their type.
+ *
+ * @example
+ * workflow.on("afterChange", (change: GraphChangeRecord) => {
+ *     if (change.type === "node-move") {
+ *         saveLayout(change.positions);
+ *     }
+ * });
+ */
+export type GraphChangeRecord =
+    NodeMoveChange
+    | ArrangeChange
+    | AlignChange
+    | ConnectChange
+    | DisconnectChange
+    | DeleteChange
+    | CreateFromPortChange
+    | PasteChange
+    | AnnotationChange
+    | HistoryChange;
+
+/**
+ * Payload of the “beforeChange” event.
+ * Listeners can call {@link preventDefault} to veto the change, in which case the plugin leaves the model untouched
+ * and no “afterChange” event follows.
+ */
+export interface BeforeChangeEvent extends GraphChange {
+    defaultPrevented: boolean;
+
+    preventDefault(): void;
+}
+
+/**
+ * Payload types of events emitted through {@link Workflow.eventHub}.
+ *
+ * Plugins that register their own events should add them to this interface through declaration merging,
+ * so their handlers get typed as well:
+ *
+ * @example
+ * declare module "cwl-svg/compiled/src/plugins/plugin" {
+ *     interface WorkflowEventMap {
+ *         "myPlugin.event": MyPayload
+ *     }
+ * }
+ */
+export interface WorkflowEventMap {
+    "connection.create": Edge;
+    "app.create.step": StepModel;
+    "app.create.input": WorkflowInputParameterModel;
+    "app.create.output": WorkflowOutputParameterModel;
+    "beforeChange": BeforeChangeEvent;
+    "afterChange": GraphChange;
+    "afterRender": GraphChange;
+    "selectionChange": Map<string, "node" | "edge">;
 }
 
 export interface SVGPlugin {
 
+    /**
+     * Invoked once, when the plugin gets attached to a workflow.
+     * Plugins that emit their own events should declare them here through {@link EventHub.register}.
+     */
     registerWorkflow?(workflow: Workflow): void;
 
-    registerOnBeforeChange?(fn: (change: GraphChange) => void): void;
+    /**
+     * Plugins should call the given function before they touch the model,
+     * and give up on the change if it returns false, since a listener vetoed it.
+     */
+    registerOnBeforeChange?(fn: (change: GraphChange) => boolean): void;
 
     registerOnAfterChange?(fn: (change: GraphChange) => void): void;
 
@@ -1,9 +1,13 @@
-import {PluginBase} from "../plugin-base";
-import {Workflow}   from "../../";
-import {GraphNode}  from "../../graph/graph-node";
-import {Geometry}   from "../../utils/geometry";
-import {Edge}       from "../../graph/edge";
-import {EdgePanner} from "../../behaviors/edge-panning";
+import {PluginBase}                                                from "../plugin-base";
+import {Workflow}                                                  from "../../";
+import {GraphNode}                                                 from "../../graph/graph-node";
+import {GraphOrientation}                                          from "../../graph/orientation";
+import {NodePlacement}                                             from "../../graph/placement";
+import {Geometry}                                                  from "../../utils/geometry";
+import {Edge}                                                      from "../../graph/edge";
+import {EdgePanner}                                                from "../../behaviors/edge-panning";
+import {ConnectChange, ConnectionEndpoints, CreateFromPortChange}  from "../plugin";
+import {WorkflowInputParameterModel, WorkflowOutputParameterModel} from "cwlts/models";
 
 export class SVGPortDragPlugin extends PluginBase {
 
@@ -206,19 +210,58 @@ export class SVGPortDragPlugin extends PluginBase {
         const portID             = this.originPort.getAttribute("data-connection-id");
 
         if (shouldSnap) {
-            this.createEdgeBetweenPorts(this.originPort, this.snapPort);
+
+            const change: ConnectChange = {
+                type: "connect",
+                connections: [this.orderConnectionEndpoints(this.originPort, this.snapPort)]
+            };
+
+            if (this.onBeforeChange(change)) {
+                const {source, destination} = change.connections[0];
+
+                this.workflow.model.connect(source, destination);
+                this.onAfterChange(change);
+            }
+
         } else if (shouldCreateInput || shouldCreateOutput) {
 
+            const nodeID              = this.workflow.findParent(this.originPort).getAttribute("data-connection-id");
             const svgCoordsUnderMouse = this.workflow.transformScreenCTMtoCanvas(ev.clientX, ev.clientY);
-            const customProps         = {
-                "sbg:x": svgCoordsUnderMouse.x,
-                "sbg:y": svgCoordsUnderMouse.y
+
+            const change: CreateFromPortChange = {
+                type: shouldCreateInput ? "create-input" : "create-output",
+                port: portID,
+                nodeIDs: [nodeID],
+                connections: [],
+                positions: []
             };
 
-            if (shouldCreateInput) {
-                this.workflow.model.createInputFromPort(portID, {customProps});
-            } else {
-                this.workflow.model.createOutputFromPort(portID, {customProps});
+            if (this.onBeforeChange(change)) {
+
+                const customProps = {
+                    "sbg:x": svgCoordsUnderMouse.x,
+                    "sbg:y": svgCoordsUnderMouse.y
+                };
+
+                let created: WorkflowInputParameterModel | WorkflowOutputParameterModel;
+                let connection: ConnectionEndpoints;
+
+                if (shouldCreateInput) {
+                    created    = this.workflow.model.createInputFromPort(portID, {customProps});
+                    connection = {source: created.connectionId, destination: portID};
+                } else {
+                    created    = this.workflow.model.createOutputFromPort(portID, {customProps});
+                    connection = {source: portID, destination: created.connectionId};
+                }
+
+                // The node goes where the drag ended, unless that's on top of another node
+                const position = NodePlacement.place(this.workflow, created.connectionId, svgCoordsUnderMouse) || svgCoordsUnderMouse;
+
+                this.onAfterChange(Object.assign({}, change, {
+                    nodeIDs: [nodeID, created.connectionId],
+                    connections: [connection],
+                    positions: [{id: created.connectionId, after: position}]
+                }));
             }
         }
 
@@ -265,14 +308,17 @@ export class SVGPortDragPlugin extends PluginBase {
     private updateEdge(fromX: number, fromY: number, toX: number, toY: number): void {
         const subEdges = this.edgeGroup.children as HTMLCollectionOf<SVGPathElement>;
 
+        // Edges dragged out of input ports go against the flow of the graph
+        const direction = GraphOrientation.getEdgeDirection(this.workflow.orientation, this.portType === "input");
+
         for (let subEdge of <any>subEdges) {
 
-            const path = Workflow.makeConnectionPath(
+            const path = this.workflow.edgeRouter.makePath(
                 fromX,
                 fromY,
                 toX,
                 toY,
-                this.portType === "input" ? "left" : "right"
+                direction
             );
 
             subEdge.setAttribute("d", path);
@@ -414,11 +460,11 @@ export class SVGPortDragPlugin extends PluginBase {
 
 
     /**
-     * Creates an edge (connection) between two elements determined by their connection IDs
-     * This edge is created on the model, and not rendered directly on graph, as main workflow
+     * Finds connection IDs of the ports that an edge between the given elements would connect.
+     * The edge itself is created on the model, and not rendered directly on graph, as main workflow
      * is supposed to catch the creation event and draw it.
      */
-    private createEdgeBetweenPorts(source: SVGGElement, destination: SVGGElement): void {
+    private orderConnectionEndpoints(source: SVGGElement, destination: SVGGElement): ConnectionEndpoints {
 
         // Find the connection ids of origin port and the highlighted port
         let sourceID      = source.getAttribute("data-connection-id");
@@ -431,7 +477,7 @@ export class SVGPortDragPlugin extends PluginBase {
             destinationID = tmp;
         }
 
-        this.workflow.model.connect(sourceID, destinationID);
+        return {source: sourceID, destination: destinationID};
     }
 
     private findEdge(sourceID: string, destinationID: string): SVGGElement | undefined {
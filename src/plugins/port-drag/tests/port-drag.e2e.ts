@@ -123,6 +123,61 @@ describe("Dragging from port", () => {
 
     });
 
+    it("puts a node created by dropping an edge on top of another node into free space next to it", async function () {
+
+        const readNodes = () => browser.executeScript(() => {
+            const nodes = {};
+
+            Array.prototype.slice.call(document.querySelectorAll(".node")).forEach(node => {
+                const matrix = node.transform.baseVal.getItem(0).matrix;
+                const box    = node.querySelector(".outer").getBoundingClientRect();
+
+                nodes[node.getAttribute("data-connection-id")] = {
+                    x: matrix.e,
+                    y: matrix.f,
+                    left: box.left,
+                    top: box.top,
+                    right: box.right,
+                    bottom: box.bottom
+                };
+            });
+
+            return nodes;
+        }) as Promise<any>;
+
+        const before     = await readNodes();
+        const originPort = element(by.css("[data-id=second] [data-port-id=beta] .port-handle"));
+        const target     = element(by.css("[data-id=egeba] .inner"));
+
+        await browser.actions()
+            .mouseDown(originPort)
+            .mouseMove({x: -30, y: 0})
+            .mouseMove(target)
+            .mouseMove(target)
+            .mouseUp()
+            .perform();
+
+        const after   = await readNodes();
+        const created = Object.keys(after).filter(id => !before[id]);
+
+        expect(created.length).toBe(1);
+
+        const placed = after[created[0]];
+        const egeba  = after["out/egeba/egeba"];
+
+        for (const id in before) {
+            expect({x: after[id].x, y: after[id].y}).toEqual({x: before[id].x, y: before[id].y}, `${id} got moved`);
+
+            const other    = after[id];
+            const overlaps = other.left < placed.right && placed.left < other.right && other.top < placed.bottom && placed.top < other.bottom;
+
+            expect(overlaps).toBe(false, `The created node covers ${id}`);
+        }
+
+        // It slides just far enough not to cover the node it was dropped on
+        expect(Math.sqrt(Math.pow(placed.x - egeba.x, 2) + Math.pow(placed.y - egeba.y, 2))).toBeLessThan(200);
+    });
+
     xit("shows edge information when hovering over newly created edges");
 
 
@@ -0,0 +1,400 @@
+import {GraphOrientation} from "../../graph/orientation";
+import {Workflow}         from "../../graph/workflow";
+import {PluginBase}       from "../plugin-base";
+
+export interface SearchPluginParams {
+    /** Whether to show a search field in the corner of the canvas, opened with Ctrl+F */
+    overlay?: boolean,
+
+    /** Scale to zoom to when centering a match, kept within the zoom limits of the workflow */
+    focusScale?: number,
+
+    /** Duration of the pan and zoom towards a match, in milliseconds */
+    animationDuration?: number
+}
+
+/**
+ * Finds nodes by their ID, label, port IDs or the class of the tool they run.
+ *
+ * All matches get highlighted while the rest of the graph fades out, and {@link next} and {@link previous}
+ * step through the matches, moving the canvas so that the current one ends up in the middle.
+ */
+export class SearchPlugin extends PluginBase {
+
+    private overlay           = false;
+    private focusScale        = 1;
+    private animationDuration = 300;
+
+    private svg: SVGSVGElement;
+
+    private query = "";
+
+    /** Connection IDs of matching nodes, ordered in the direction in which the graph flows */
+    private matches: string[] = [];
+
+    /** Connection IDs of matching ports, which get highlighted along with their nodes */
+    private portMatches: string[] = [];
+
+    private currentIndex = -1;
+
+    private overlayElement: SVGForeignObjectElement;
+    private overlayInput: HTMLInputElement;
+
+    private animationFrame: number;
+
+    private cleanups: Function[] = [];
+
+    private css = {
+        plugin: "__plugin-search",
+        fade: "__search-plugin-fade",
+        match: "__search-plugin-match",
+        current: "__search-plugin-current",
+        overlay: "__search-plugin-overlay"
+    };
+
+    constructor(parameters: SearchPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        this.svg = this.workflow.svgRoot;
+        this.svg.classList.add(this.css.plugin);
+
+        if (this.overlay) {
+            this.createOverlay();
+        }
+    }
+
+    afterRender(): void {
+        if (this.overlayElement && this.svg.lastElementChild !== this.overlayElement) {
+            this.svg.appendChild(this.overlayElement);
+        }
+
+        // Nodes may have come and gone, so find them again, but don't move the canvas around
+        if (this.query) {
+            const current = this.matches[this.currentIndex];
+
+            this.findMatches();
+            this.currentIndex = Math.max(this.matches.indexOf(current), this.matches.length ? 0 : -1);
+            this.paintMatches();
+        }
+    }
+
+    destroy(): void {
+        window.cancelAnimationFrame(this.animationFrame);
+
+        this.removeHighlights();
+        this.svg.classList.remove(this.css.plugin);
+
+        for (const fn of this.cleanups) {
+            fn();
+        }
+
+        this.cleanups = [];
+
+        if (this.overlayElement) {
+            this.overlayElement.remove();
+        }
+    }
+
+    /**
+     * Highlights nodes that match the query and moves to the first one
+     * @returns connection IDs of matching nodes
+     */
+    search(query: string): string[] {
+        this.query = query.trim().toLowerCase();
+
+        if (this.overlayInput && this.overlayInput.value !== query) {
+            this.overlayInput.value = query;
+        }
+
+        if (!this.query) {
+            this.clear();
+            return [];
+        }
+
+        this.findMatches();
+        this.currentIndex = this.matches.length ? 0 : -1;
+        this.paintMatches();
+
+        if (this.matches.length) {
+            this.focusMatch(this.matches[0]);
+        }
+
+        return this.getMatches();
+    }
+
+    /**
+     * Moves to the next match, going back to the first one after the last
+     * @returns connection ID of the match, or undefined if nothing matches
+     */
+    next(): string | undefined {
+        return this.step(1);
+    }
+
+    /**
+     * Moves to the previous match, going to the last one before the first
+     * @returns connection ID of the match, or undefined if nothing matches
+     */
+    previous(): string | undefined {
+        return this.step(-1);
+    }
+
+    /**
+     * Removes highlights and forgets the query
+     */
+    clear(): void {
+        this.query        = "";
+        this.matches      = [];
+        this.portMatches  = [];
+        this.currentIndex = -1;
+
+        this.removeHighlights();
+
+        if (this.overlayInput) {
+            this.overlayInput.value = "";
+        }
+    }
+
+    getMatches(): string[] {
+        return this.matches.slice();
+    }
+
+    /**
+     * @returns connection ID of the match that the canvas was last moved to
+     */
+    getCurrentMatch(): string | undefined {
+        return this.matches[this.currentIndex];
+    }
+
+    /**
+     * Shows the search field and puts the cursor in it
+     */
+    openOverlay(): void {
+        if (!this.overlayElement) {
+            return;
+        }
+
+        this.overlayElement.classList.remove("hidden");
+        this.overlayInput.focus();
+        this.overlayInput.select();
+    }
+
+    private step(direction: 1 | -1): string | undefined {
+        if (this.matches.length === 0) {
+            return undefined;
+        }
+
+        this.currentIndex = (this.currentIndex + direction + this.matches.length) % this.matches.length;
+        this.paintMatches();
+
+        const match = this.matches[this.currentIndex];
+        this.focusMatch(match);
+
+        return match;
+    }
+
+    private findMatches(): void {
+        const query = this.query;
+        const found = [];
+        const ports = [];
+
+        const includes = (value?: string) => typeof value === "string" && value.toLowerCase().indexOf(query) !== -1;
+
+        const nodes = [
+            ...this.workflow.model.steps,
+            ...this.workflow.model.inputs,
+            ...this.workflow.model.outputs
+        ].filter(node => node.isVisible);
+
+        for (const node of nodes) {
+            const step         = node as any;
+            const matchedPorts = [...(step.in || []), ...(step.out || [])]
+                .filter(port => port.isVisible && includes(port.id))
+                .map(port => port.connectionId);
+
+            const isMatch = includes(node.id)
+                || includes(node.label)
+                || (step.run && includes(step.run.class))
+                || matchedPorts.length > 0;
+
+            if (isMatch) {
+                found.push(node.connectionId);
+                ports.push(...matchedPorts);
+            }
+        }
+
+        // Go through matches in the direction in which the graph flows, and across it for nodes on the same level
+        const positions = new Map<string, { x: number, y: number }>();
+        for (const connectionID of found) {
+            const el     = this.findNodeElement(connectionID);
+            const matrix = el ? el.transform.baseVal.getItem(0).matrix : {e: 0, f: 0};
+
+            positions.set(connectionID, GraphOrientation.toLeftToRight({x: matrix.e, y: matrix.f}, this.workflow.orientation));
+        }
+
+        this.matches = found.sort((a, b) => {
+            const first  = positions.get(a);
+            const second = positions.get(b);
+
+            return first.x - second.x || first.y - second.y;
+        });
+
+        this.portMatches = ports;
+    }
+
+    private paintMatches(): void {
+        this.removeHighlights();
+
+        if (!this.query) {
+            return;
+        }
+
+        this.svg.classList.add(this.css.fade);
+
+        this.matches.forEach((connectionID, index) => {
+            const el = this.findNodeElement(connectionID);
+
+            if (el) {
+                el.classList.add(this.css.match);
+                el.classList.toggle(this.css.current, index === this.currentIndex);
+            }
+        });
+
+        for (const connectionID of this.portMatches) {
+            const port = this.svg.querySelector(`.port[data-connection-id="${connectionID}"]`);
+
+            if (port) {
+                port.classList.add(this.css.match);
+            }
+        }
+    }
+
+    private removeHighlights(): void {
+        for (const cls of [this.css.match, this.css.current]) {
+            for (const el of Array.from(this.svg.querySelectorAll(`.${cls}`))) {
+                el.classList.remove(cls);
+            }
+        }
+
+        this.svg.classList.remove(this.css.fade);
+    }
+
+    /**
+     * Pans and zooms the canvas so that the node ends up in the middle of it
+     */
+    private focusMatch(connectionID: string): void {
+        const el = this.findNodeElement(connectionID);
+
+        if (!el) {
+            return;
+        }
+
+        window.cancelAnimationFrame(this.animationFrame);
+
+        const node   = el.transform.baseVal.getItem(0).matrix;
+        const matrix = this.workflow.workflow.transform.baseVal.getItem(0).matrix;
+        const rect   = this.svg.getBoundingClientRect();
+
+        const fromScale = matrix.a;
+        const toScale   = Math.min(Math.max(this.focusScale, this.workflow.minScale), this.workflow.maxScale);
+
+        // Point of the graph that is currently in the middle of the canvas
+        const from = {
+            x: (rect.width / 2 - matrix.e) / fromScale,
+            y: (rect.height / 2 - matrix.f) / fromScale
+        };
+
+        const start = performance.now();
+
+        const animate = (time: number) => {
+            const progress = this.animationDuration > 0 ? Math.min((time - start) / this.animationDuration, 1) : 1;
+            const eased    = progress < .5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2;
+
+            const scale  = fromScale + (toScale - fromScale) * eased;
+            const center = {
+                x: from.x + (node.e - from.x) * eased,
+                y: from.y + (node.f - from.y) * eased
+            };
+
+            // Let the workflow scale itself, so labels get adjusted as well, and then place the center where it should be
+            this.workflow.scaleAtPoint(scale);
+
+            matrix.e = rect.width / 2 - center.x * scale;
+            matrix.f = rect.height / 2 - center.y * scale;
+
+            if (progress < 1) {
+                this.animationFrame = window.requestAnimationFrame(animate);
+            }
+        };
+
+        this.animationFrame = window.requestAnimationFrame(animate);
+    }
+
+    private findNodeElement(connectionID: string): SVGGElement | undefined {
+        return this.svg.querySelector(`.node[data-connection-id="${connectionID}"]`) as SVGGElement;
+    }
+
+    private createOverlay(): void {
+        const width  = 220;
+        const height = 28;
+        const margin = 10;
+
+        this.overlayElement = document.createElementNS("http://www.w3.org/2000/svg", "foreignObject");
+        this.overlayElement.classList.add(this.css.overlay, "hidden");
+        this.overlayElement.setAttribute("data-no-export", "");
+        this.overlayElement.setAttribute("width", String(width));
+        this.overlayElement.setAttribute("height", String(height));
+        this.overlayElement.setAttribute("x", String(margin));
+        this.overlayElement.setAttribute("y", String(margin));
+
+        this.overlayInput             = document.createElement("input");
+        this.overlayInput.type        = "search";
+        this.overlayInput.placeholder = "Find in graph";
+        this.overlayInput.setAttribute("aria-label", "Find in graph");
+
+        this.overlayElement.appendChild(this.overlayInput);
+        this.svg.appendChild(this.overlayElement);
+
+        const inputListener   = () => this.search(this.overlayInput.value);
+        const keyDownListener = (ev: KeyboardEvent) => {
+
+            // Keys typed into the field are not meant for plugins that listen for keys on the canvas
+            ev.stopPropagation();
+
+            if (ev.key === "Enter") {
+                ev.preventDefault();
+
+                if (ev.shiftKey) {
+                    this.previous();
+                } else {
+                    this.next();
+                }
+            } else if (ev.key === "Escape") {
+                this.clear();
+                this.overlayElement.classList.add("hidden");
+                (this.svg as any).focus();
+            }
+        };
+
+        const shortcutListener = (ev: KeyboardEvent) => {
+            if ((ev.ctrlKey || ev.metaKey) && ev.key.toLowerCase() === "f") {
+                ev.preventDefault();
+                this.openOverlay();
+            }
+        };
+
+        this.overlayInput.addEventListener("input", inputListener);
+        this.overlayInput.addEventListener("keydown", keyDownListener);
+        this.svg.addEventListener("keydown", shortcutListener);
+
+        this.cleanups.push(
+            () => this.overlayInput.removeEventListener("input", inputListener),
+            () => this.overlayInput.removeEventListener("keydown", keyDownListener),
+            () => this.svg.removeEventListener("keydown", shortcutListener)
+        );
+    }
+}
@@ -0,0 +1,23 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory} from "cwlts/models";
+import {Workflow}        from "../../../";
+import {SearchPlugin}    from "../search";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const search = new SearchPlugin({
+    overlay: true,
+    animationDuration: 0
+});
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [search]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, search});
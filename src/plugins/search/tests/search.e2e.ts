@@ -0,0 +1,89 @@
+import {browser, by, element}    from "protractor";
+import {hasClass, serveCompiled} from "../../../utils/test-utils";
+
+describe("Search", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    it("highlights nodes that match by ID, label, port or tool class", async function () {
+
+        const byPort = await browser.executeScript(() => (window as any).search.search("MESSAGE"));
+        expect(byPort).toEqual(["out/message/message", "print"]);
+
+        const byToolClass = await browser.executeScript(() => (window as any).search.search("commandlinetool"));
+        expect(byToolClass).toEqual(["idle", "print"]);
+
+        expect(await hasClass(element(by.css("svg")), "__search-plugin-fade")).toBe(true);
+        expect(await hasClass(element(by.css("[data-id='print']")), "__search-plugin-match")).toBe(true);
+        expect(await hasClass(element(by.css("[data-id='message']")), "__search-plugin-match")).toBe(false);
+    });
+
+    it("steps through matches and centers the current one", async function () {
+
+        await browser.executeScript(() => (window as any).search.search("i"));
+        const current = await browser.executeScript(() => (window as any).search.next());
+
+        expect(await hasClass(element(by.css(`[data-connection-id='${current}']`)), "__search-plugin-current")).toBe(true);
+
+        await browser.sleep(100);
+
+        const offset = await browser.executeScript((connectionID) => {
+            const svg  = document.querySelector("svg").getBoundingClientRect();
+            const node = document.querySelector(`.node[data-connection-id="${connectionID}"] .outer`).getBoundingClientRect();
+
+            return {
+                x: (node.left + node.width / 2) - (svg.left + svg.width / 2),
+                y: (node.top + node.height / 2) - (svg.top + svg.height / 2)
+            };
+        }, current) as any;
+
+        expect(Math.abs(offset.x)).toBeLessThan(1);
+        expect(Math.abs(offset.y)).toBeLessThan(1);
+    });
+
+    it("orders matches in the direction in which the graph flows", async function () {
+
+        const leftToRight = await browser.executeScript(() => (window as any).search.search("i"));
+        expect(leftToRight).toEqual(["idle", "print", "in/printed/printed"]);
+
+        const topToBottom = await browser.executeScript(() => {
+            const {wf, search} = window as any;
+
+            wf.setOrientation("TB");
+            return search.search("i");
+        });
+        expect(topToBottom).toEqual(["print", "in/printed/printed", "idle"]);
+
+        const rightToLeft = await browser.executeScript(() => {
+            const {wf, search} = window as any;
+
+            wf.setOrientation("RL");
+            return search.search("i");
+        });
+        expect(rightToLeft).toEqual(["in/printed/printed", "print", "idle"]);
+    });
+
+    it("clears highlights", async function () {
+
+        const matches = await browser.executeScript(() => (window as any).search.search("print"));
+
+        expect(matches).toEqual(["print", "in/printed/printed"]);
+        expect(await hasClass(element(by.css("svg")), "__search-plugin-fade")).toBe(true);
+        expect(await element.all(by.css(".__search-plugin-match")).count()).toBe(2);
+
+        await browser.executeScript(() => (window as any).search.clear());
+
+        expect(await hasClass(element(by.css("svg")), "__search-plugin-fade")).toBe(false);
+        expect(await element.all(by.css(".__search-plugin-match")).count()).toBe(0);
+        expect(await browser.executeScript(() => (window as any).search.getMatches())).toEqual([]);
+    });
+});
@@ -1,6 +1,12 @@
 import {Workflow} from "../../";
 import {PluginBase} from "../plugin-base";
 
+/**
+ * Selects nodes and edges on click.
+ *
+ * Holding shift, ctrl or cmd while clicking adds items to the selection or removes them from it,
+ * and dragging over the empty canvas with one of those keys held selects all nodes inside the drawn rectangle.
+ */
 export class SelectionPlugin extends PluginBase {
 
     static edgePortsDelimiter = "$!$";
@@ -11,10 +17,18 @@ export class SelectionPlugin extends PluginBase {
 
     private selectionChangeCallbacks = [];
 
+    /** Rectangle that is drawn while lasso selecting, in canvas coordinates */
+    private lasso: SVGRectElement;
+    private lassoStart: { x: number, y: number };
+
+    private boundLassoMoveHandler = this.onLassoMove.bind(this);
+    private boundLassoEndHandler  = this.onLassoEnd.bind(this);
+
     private css = {
         selected: "__selection-plugin-selected",
         highlight: "__selection-plugin-highlight",
         fade: "__selection-plugin-fade",
+        lasso: "__selection-plugin-lasso",
         plugin: "__plugin-selection"
     };
 
@@ -28,6 +42,11 @@ export class SelectionPlugin extends PluginBase {
         const clickListener = this.onClick.bind(this);
         this.svg.addEventListener("click", clickListener);
         this.cleanups.push(() => this.svg.removeEventListener("click", clickListener));
+
+        // Captured so that canvas panning, which listens on the same element, never sees a lasso drag
+        const lassoListener = this.onLassoStart.bind(this);
+        this.svg.addEventListener("mousedown", lassoListener, true);
+        this.cleanups.push(() => this.svg.removeEventListener("mousedown", lassoListener, true));
     }
 
     afterRender() {
@@ -49,6 +68,8 @@ export class SelectionPlugin extends PluginBase {
 
         this.svg.classList.remove(this.css.plugin);
 
+        this.removeLasso();
+
         for (const fn of this.cleanups) {
             fn();
         }
@@ -56,18 +77,7 @@ export class SelectionPlugin extends PluginBase {
 
     clearSelection(): void {
 
-        const selection  = this.svg.querySelectorAll(`.${this.css.selected}`);
-        const highlights = this.svg.querySelectorAll(`.${this.css.highlight}`);
-
-        for (const el of selection) {
-            el.classList.remove(this.css.selected);
-        }
-
-        for (const el of highlights) {
-            el.classList.remove(this.css.highlight);
-        }
-
-        this.svg.classList.remove(this.css.fade);
+        this.removeSelectionClasses();
 
         this.selection.clear();
 
@@ -78,7 +88,11 @@ export class SelectionPlugin extends PluginBase {
         return this.selection;
     }
 
-    registerOnSelectionChange(fn: (node: any) => any) {
+    /**
+     * @param fn Gets the element or edge ID that has just been selected, or null if something got deselected,
+     *           and all items that are selected at that point
+     */
+    registerOnSelectionChange(fn: (node: any, selection?: Map<string, "edge" | "node">) => any) {
         this.selectionChangeCallbacks.push(fn);
     }
 
@@ -135,11 +149,161 @@ export class SelectionPlugin extends PluginBase {
     private onClick(click: MouseEvent): void {
         const target = click.target as SVGElement;
 
+        if (SelectionPlugin.isMultiSelectEvent(click)) {
+            this.toggleElement(target);
+            return;
+        }
+
         this.clearSelection();
 
         this.materializeClickOnElement(target);
     }
 
+    private static isMultiSelectEvent(ev: MouseEvent): boolean {
+        return ev.shiftKey || ev.ctrlKey || ev.metaKey;
+    }
+
+    /**
+     * Adds the node or edge that the target belongs to, or removes it if it was already selected
+     */
+    private toggleElement(target: SVGElement): void {
+
+        let element: SVGElement;
+        let key: string;
+
+        if (element = this.workflow.findParent(target, "node")) {
+            key = element.getAttribute("data-connection-id");
+        } else if (element = this.workflow.findParent(target, "edge")) {
+            key = SelectionPlugin.makeEdgeKey(element);
+        } else {
+            return;
+        }
+
+        if (!this.selection.has(key)) {
+            this.materializeClickOnElement(element);
+            return;
+        }
+
+        // Highlights of adjacent elements can be shared among selected items,
+        // so it's easier to paint everything that remains selected from scratch
+        this.selection.delete(key);
+        this.removeSelectionClasses();
+        this.restoreSelection();
+
+        this.emitChange(null);
+    }
+
+    private onLassoStart(ev: MouseEvent): void {
+
+        const target = ev.target as Element;
+
+        if (ev.button !== 0 || !SelectionPlugin.isMultiSelectEvent(ev) || !target.classList.contains("pan-handle")) {
+            return;
+        }
+
+        ev.stopPropagation();
+        ev.preventDefault();
+
+        this.lassoStart = this.workflow.transformScreenCTMtoCanvas(ev.clientX, ev.clientY);
+
+        this.lasso = document.createElementNS("http://www.w3.org/2000/svg", "rect");
+        this.lasso.classList.add(this.css.lasso);
+        this.updateLasso(this.lassoStart);
+
+        this.workflow.workflow.appendChild(this.lasso);
+
+        document.addEventListener("mousemove", this.boundLassoMoveHandler);
+        document.addEventListener("mouseup", this.boundLassoEndHandler);
+    }
+
+    private onLassoMove(ev: MouseEvent): void {
+        this.updateLasso(this.workflow.transformScreenCTMtoCanvas(ev.clientX, ev.clientY));
+    }
+
+    private onLassoEnd(ev: MouseEvent): void {
+
+        const rect = this.updateLasso(this.workflow.transformScreenCTMtoCanvas(ev.clientX, ev.clientY));
+
+        this.removeLasso();
+
+        // The click that follows the mouseup would otherwise go through click selection
+        const clickCancellation = (click: MouseEvent) => click.stopPropagation();
+        this.svg.addEventListener("click", clickCancellation, true);
+        setTimeout(() => this.svg.removeEventListener("click", clickCancellation, true));
+
+        let selectedSomething = false;
+
+        for (const node of Array.from(this.svg.querySelectorAll(".node")) as SVGGElement[]) {
+
+            const matrix   = node.transform.baseVal.getItem(0).matrix;
+            const isInside = matrix.e >= rect.x && matrix.e <= rect.x + rect.width
+                && matrix.f >= rect.y && matrix.f <= rect.y + rect.height;
+
+            if (isInside) {
+                this.selectNode(node);
+                this.selection.set(node.getAttribute("data-connection-id"), "node");
+                selectedSomething = true;
+            }
+        }
+
+        if (selectedSomething) {
+            this.emitChange(null);
+        }
+    }
+
+    /**
+     * Stretches the lasso from the point where the drag started to the given point
+     */
+    private updateLasso(point: { x: number, y: number }): { x: number, y: number, width: number, height: number } {
+        const rect = {
+            x: Math.min(this.lassoStart.x, point.x),
+            y: Math.min(this.lassoStart.y, point.y),
+            width: Math.abs(point.x - this.lassoStart.x),
+            height: Math.abs(point.y - this.lassoStart.y)
+        };
+
+        for (const attr in rect) {
+            this.lasso.setAttribute(attr, String(rect[attr]));
+        }
+
+        return rect;
+    }
+
+    private removeLasso(): void {
+        document.removeEventListener("mousemove", this.boundLassoMoveHandler);
+        document.removeEventListener("mouseup", this.boundLassoEndHandler);
+
+        if (this.lasso) {
+            this.lasso.remove();
+        }
+
+        delete this.lasso;
+        delete this.lassoStart;
+    }
+
+    private removeSelectionClasses(): void {
+        const selection  = this.svg.querySelectorAll(`.${this.css.selected}`);
+        const highlights = this.svg.querySelectorAll(`.${this.css.highlight}`);
+
+        for (const el of selection) {
+            el.classList.remove(this.css.selected);
+        }
+
+        for (const el of highlights) {
+            el.classList.remove(this.css.highlight);
+        }
+
+        this.svg.classList.remove(this.css.fade);
+    }
+
+    private static makeEdgeKey(edge: Element): string {
+        return [
+            edge.getAttribute("data-source-connection"),
+            SelectionPlugin.edgePortsDelimiter,
+            edge.getAttribute("data-destination-connection")
+        ].join("");
+    }
+
     private materializeClickOnElement(target: SVGElement) {
 
         let element: SVGElement;
@@ -151,11 +315,7 @@ export class SelectionPlugin extends PluginBase {
 
         } else if (element = this.workflow.findParent(target, "edge")) {
             this.selectEdge(element);
-            const cid = [
-                element.getAttribute("data-source-connection"),
-                SelectionPlugin.edgePortsDelimiter,
-                element.getAttribute("data-destination-connection")
-            ].join("");
+            const cid = SelectionPlugin.makeEdgeKey(element);
 
             this.selection.set(cid, "edge");
             this.emitChange(cid);
@@ -226,8 +386,12 @@ export class SelectionPlugin extends PluginBase {
     }
 
     private emitChange(change) {
+        const selection = new Map(this.selection);
+
         for (const fn of this.selectionChangeCallbacks) {
-            fn(change);
+            fn(change, selection);
         }
+
+        this.workflow.eventHub.emit("selectionChange", selection);
     }
 }
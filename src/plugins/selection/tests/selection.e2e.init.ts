@@ -0,0 +1,20 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}                           from "cwlts/models";
+import {DeletionPlugin, SelectionPlugin, Workflow} from "../../../";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot = document.getElementById("svg") as any;
+
+const selection = new SelectionPlugin();
+const deletion  = new DeletionPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [selection, deletion]
+});
+
+wf.fitToViewport();
+
+Object.assign(window, {wf, selection, deletion});
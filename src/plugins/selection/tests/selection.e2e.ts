@@ -0,0 +1,140 @@
+import {browser, by, element, protractor} from "protractor";
+import {serveCompiled}                     from "../../../utils/test-utils";
+
+describe("Selection", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    /**
+     * Starts recording the connection IDs of selected items each time the selection changes
+     */
+    async function recordSelectionChanges() {
+        await browser.executeScript(() => {
+            (window as any).selections = [];
+            (window as any).wf.on("selectionChange", selection => {
+                (window as any).selections.push(Array.from(selection.keys()));
+            });
+        });
+    }
+
+    async function getSelectionChanges(): Promise<string[][]> {
+        return await browser.executeScript(() => (window as any).selections) as string[][];
+    }
+
+    async function shiftClick(connectionID: string) {
+        await browser.actions()
+            .keyDown(protractor.Key.SHIFT)
+            .click(element(by.css(`.node[data-connection-id="${connectionID}"] .inner`)))
+            .keyUp(protractor.Key.SHIFT)
+            .perform();
+    }
+
+    it("adds nodes to the selection on a modifier click, and takes them out on another", async function () {
+
+        await recordSelectionChanges();
+
+        await shiftClick("print");
+        await shiftClick("idle");
+        await shiftClick("print");
+
+        expect(await getSelectionChanges()).toEqual([
+            ["print"],
+            ["print", "idle"],
+            ["idle"]
+        ]);
+
+        expect(await element.all(by.css(".node.__selection-plugin-selected")).count()).toBe(1);
+        expect(await element(by.css(`.node[data-connection-id="idle"]`)).getAttribute("class")).toContain("__selection-plugin-selected");
+    });
+
+    it("selects exactly the nodes inside of a lasso drawn with a modifier", async function () {
+
+        await recordSelectionChanges();
+
+        // The lasso goes around the input and the step next to it, but not around the ones to the right and below
+        const corners = await browser.executeScript(() => {
+            const svg    = document.getElementById("svg").getBoundingClientRect();
+            const bounds = ["out/message/message", "print"].map(id => {
+                return document.querySelector(`.node[data-connection-id="${id}"] .outer`).getBoundingClientRect();
+            });
+
+            return {
+                start: {
+                    x: Math.round(Math.min(bounds[0].left, bounds[1].left) - svg.left - 10),
+                    y: Math.round(Math.min(bounds[0].top, bounds[1].top) - svg.top - 10)
+                },
+                end: {
+                    x: Math.round(Math.max(bounds[0].right, bounds[1].right) - svg.left + 10),
+                    y: Math.round(Math.max(bounds[0].bottom, bounds[1].bottom) - svg.top + 10)
+                }
+            };
+        }) as any;
+
+        const svg = element(by.css("#svg"));
+
+        await browser.actions()
+            .keyDown(protractor.Key.SHIFT)
+            .mouseMove(svg, corners.start)
+            .mouseDown()
+            .mouseMove(svg, corners.end)
+            .mouseUp()
+            .keyUp(protractor.Key.SHIFT)
+            .perform();
+
+        const changes = await getSelectionChanges();
+
+        expect(changes.length).toBe(1);
+        expect(changes[0].sort()).toEqual(["out/message/message", "print"]);
+        expect(await element.all(by.css(".__selection-plugin-lasso")).count()).toBe(0);
+    });
+
+    it("deletes every selected node and edge in a single change", async function () {
+
+        await shiftClick("idle");
+        await shiftClick("out/message/message");
+
+        await browser.actions()
+            .keyDown(protractor.Key.SHIFT)
+            .click(element(by.css(`.edge[data-destination-connection="in/printed/printed"] .inner`)))
+            .keyUp(protractor.Key.SHIFT)
+            .perform();
+
+        const result = await browser.executeScript(() => {
+            const {wf, selection, deletion} = window as any;
+            const changes                   = [];
+
+            wf.on("afterChange", change => changes.push(change));
+
+            const selected = Array.from(selection.getSelection().values()).sort();
+
+            deletion.deleteSelection();
+
+            return {
+                selected,
+                changes: changes.map(change => ({type: change.type, nodeIDs: change.nodeIDs.sort()})),
+                idle: !!wf.model.findById("idle"),
+                message: !!wf.model.findById("out/message/message"),
+                printed: wf.model.connections.some(edge => edge.destination.id === "in/printed/printed"),
+                remaining: selection.getSelection().size
+            };
+        }) as any;
+
+        expect(result).toEqual({
+            selected: ["edge", "node", "node"],
+            changes: [{type: "delete", nodeIDs: ["idle", "out/message/message"]}],
+            idle: false,
+            message: false,
+            printed: false,
+            remaining: 0
+        });
+    });
+});
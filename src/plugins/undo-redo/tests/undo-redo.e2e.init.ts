@@ -0,0 +1,20 @@
+import "../../../assets/styles/theme";
+import {WorkflowFactory}             from "cwlts/models";
+import {SVGNodeMovePlugin, Workflow} from "../../../";
+import {UndoRedoPlugin}              from "../undo-redo";
+
+const model = WorkflowFactory.from(require(__dirname + "/app.json"));
+
+const svgRoot  = document.getElementById("svg") as any;
+const undoRedo = new UndoRedoPlugin();
+
+const wf = new Workflow({
+    model: model,
+    svgRoot: svgRoot,
+    plugins: [
+        new SVGNodeMovePlugin(),
+        undoRedo
+    ]
+});
+
+Object.assign(window, {wf, undoRedo});
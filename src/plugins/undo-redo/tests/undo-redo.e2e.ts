@@ -0,0 +1,70 @@
+import {browser, by, element, protractor} from "protractor";
+import {serveCompiled}                    from "../../../utils/test-utils";
+
+describe("Undo and redo", () => {
+
+    let server;
+
+    beforeAll(async function (done) {
+        server = await serveCompiled();
+        done();
+    });
+
+    afterAll(() => {
+        server.close();
+    });
+
+    async function moveNode(movement: number) {
+        const actions = browser.actions();
+        const node    = await element(by.css("[data-id='print'] .inner"));
+
+        await actions
+            .mouseDown(node)
+            .mouseMove({x: movement, y: movement})
+            .perform();
+
+        await actions.mouseUp().perform();
+    }
+
+    function pressWithModifier(key: string, shift = false) {
+        const keys = [protractor.Key.CONTROL, key];
+        if (shift) {
+            keys.unshift(protractor.Key.SHIFT);
+        }
+
+        return element(by.css("[data-id='print']")).sendKeys(protractor.Key.chord(...keys));
+    }
+
+    it("reverts a node movement in a single step", async function () {
+
+        const location = await element(by.css("[data-id='print'] .inner")).getLocation();
+
+        await moveNode(100);
+        await pressWithModifier("z");
+
+        const undoneLocation = await element(by.css("[data-id='print'] .inner")).getLocation();
+
+        expect(undoneLocation.x).toBeCloseTo(location.x, 1);
+        expect(undoneLocation.y).toBeCloseTo(location.y, 1);
+    });
+
+    it("reapplies an undone node movement", async function () {
+
+        const movement = 100;
+        const location = await element(by.css("[data-id='print'] .inner")).getLocation();
+
+        await moveNode(movement);
+        await pressWithModifier("z");
+        await pressWithModifier("z", true);
+
+        const redoneLocation = await element(by.css("[data-id='print'] .inner")).getLocation();
+
+        expect(redoneLocation.x).toBeCloseTo(location.x + movement, 1);
+        expect(redoneLocation.y).toBeCloseTo(location.y + movement, 1);
+    });
+
+    it("does not record anything on initial render", async function () {
+        const canUndo = await browser.executeScript(`return window["undoRedo"].canUndo()`);
+        expect(canUndo).toBe(false);
+    });
+});
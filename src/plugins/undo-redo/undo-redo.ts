@@ -0,0 +1,225 @@
+import {WorkflowFactory}                from "cwlts/models";
+import {Workflow}                       from "../../graph/workflow";
+import {BeforeChangeEvent, GraphChange} from "../plugin";
+import {PluginBase}                     from "../plugin-base";
+
+export interface UndoRedoPluginParams {
+    /** Maximum number of entries kept on the undo stack */
+    historyLimit?: number
+}
+
+/**
+ * Keeps a history of model states and makes it possible to step back and forth through it.
+ *
+ * A state is recorded for each beforeChange/afterChange pair emitted by plugins, so continuous
+ * actions, like dragging a node, end up as a single history entry.
+ *
+ * Restoring a state creates a new model instance and draws it on the graph,
+ * so hosts should read the model from {@link Workflow.model} after an undo or redo.
+ */
+export class UndoRedoPlugin extends PluginBase {
+
+    private historyLimit = 50;
+
+    /** Serialized model states that we can go back to */
+    private undoStack: Object[] = [];
+
+    /** Serialized model states that we went back from */
+    private redoStack: Object[] = [];
+
+    /** Serialized state of the model after the last recorded change */
+    private current: Object;
+
+    /** State taken on the outermost beforeChange, waiting for its afterChange to be recorded */
+    private pending: Object;
+
+    /**
+     * BeforeChange events that are still waiting for their afterChange counterpart.
+     * Vetoed changes never get one, so they are dropped before the stack is looked at.
+     */
+    private openChanges: BeforeChangeEvent[] = [];
+
+    /** Changes are not recorded while the plugin itself is redrawing the graph, or while the first render settles */
+    private recording = false;
+    private restoring = false;
+
+    private disposers: Function[] = [];
+
+    private boundKeyDownHandler = this.onKeyDown.bind(this);
+
+    constructor(parameters: UndoRedoPluginParams = {}) {
+        super();
+        Object.assign(this, parameters);
+    }
+
+    registerWorkflow(workflow: Workflow): void {
+        super.registerWorkflow(workflow);
+
+        window.addEventListener("keydown", this.boundKeyDownHandler, true);
+
+        this.disposers.push(
+            () => window.removeEventListener("keydown", this.boundKeyDownHandler, true),
+            this.workflow.on("beforeChange", this.onWorkflowBeforeChange.bind(this)),
+            this.workflow.on("afterChange", this.onWorkflowAfterChange.bind(this))
+        );
+    }
+
+    afterModelChange(): void {
+
+        if (this.restoring) {
+            return;
+        }
+
+        // Workflow.draw is synchronous, so everything that happens on the initial render
+        // (like auto-arranging a model without coordinates) is done before this resolves
+        this.recording = false;
+        Promise.resolve().then(() => {
+            this.clearHistory();
+            this.recording = true;
+        });
+    }
+
+    destroy(): void {
+        for (const dispose of this.disposers) {
+            dispose();
+        }
+
+        this.disposers = [];
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+
+    canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    undo(): void {
+        if (!this.canUndo() || !this.canRestore("undo")) {
+            return;
+        }
+
+        this.redoStack.push(this.current);
+        this.restore(this.undoStack.pop(), "undo");
+    }
+
+    redo(): void {
+        if (!this.canRedo() || !this.canRestore("redo")) {
+            return;
+        }
+
+        this.undoStack.push(this.current);
+        this.restore(this.redoStack.pop(), "redo");
+    }
+
+    clearHistory(): void {
+        this.undoStack   = [];
+        this.redoStack   = [];
+        this.pending     = undefined;
+        this.openChanges = [];
+        this.current     = this.snapshot();
+    }
+
+    private onWorkflowBeforeChange(change: BeforeChangeEvent): void {
+        if (!this.recording || this.restoring) {
+            return;
+        }
+
+        this.dropVetoedChanges();
+
+        if (this.openChanges.length === 0) {
+            this.pending = this.snapshot();
+        }
+
+        this.openChanges.push(change);
+    }
+
+    private onWorkflowAfterChange(change: GraphChange): void {
+        if (!this.recording || this.restoring) {
+            return;
+        }
+
+        this.dropVetoedChanges();
+        this.openChanges.pop();
+
+        // Wait for the outermost change to finish so that nested changes end up in the same entry
+        if (this.openChanges.length > 0) {
+            return;
+        }
+
+        const previous = this.pending || this.current;
+        const next     = this.snapshot();
+
+        this.pending = undefined;
+
+        if (JSON.stringify(previous) === JSON.stringify(next)) {
+            return;
+        }
+
+        this.undoStack.push(previous);
+        this.redoStack = [];
+        this.current   = next;
+
+        if (this.undoStack.length > this.historyLimit) {
+            this.undoStack.shift();
+        }
+    }
+
+    private dropVetoedChanges(): void {
+        this.openChanges = this.openChanges.filter(change => !change.defaultPrevented);
+    }
+
+    private onKeyDown(ev: KeyboardEvent): void {
+
+        const target = ev.target as Node;
+        if (!(ev.ctrlKey || ev.metaKey) || !this.workflow.svgRoot.contains(target) || !this.workflow.editingEnabled) {
+            return;
+        }
+
+        const key = ev.key.toLowerCase();
+
+        if (key === "z" && !ev.shiftKey) {
+            this.undo();
+        } else if ((key === "z" && ev.shiftKey) || key === "y") {
+            this.redo();
+        } else {
+            return;
+        }
+
+        ev.preventDefault();
+    }
+
+    /**
+     * Asks listeners whether going through history is allowed.
+     * Our own listener should not take it as a change to record, since restoring records nothing.
+     */
+    private canRestore(type: "undo" | "redo"): boolean {
+        this.restoring = true;
+
+        try {
+            return this.onBeforeChange({type});
+        } finally {
+            this.restoring = false;
+        }
+    }
+
+    private restore(state: Object, type: "undo" | "redo"): void {
+
+        this.restoring = true;
+        this.current   = state;
+
+        try {
+            this.workflow.draw(WorkflowFactory.from(state as any));
+            this.onAfterChange({type});
+        } finally {
+            this.restoring = false;
+        }
+    }
+
+    private snapshot(): Object {
+        return JSON.parse(JSON.stringify(this.workflow.model.serializeEmbedded()));
+    }
+}
@@ -1,26 +1,49 @@
-export class EventHub {
-    public readonly handlers: { [event: string]: Function[] };
+export type EventHandler<T> = (payload: T) => void;
 
-    constructor(validEventList: string[]) {
-        this.handlers = validEventList.reduce((acc, ev) => Object.assign(acc, {[ev]: []}), {});
+/**
+ * Event emitter that knows which events it supports and the payload type of each one.
+ *
+ * @param M Map of event names to their payload types
+ */
+export class EventHub<M = { [event: string]: any }> {
+    public readonly handlers: {[E in keyof M]?: EventHandler<M[E]>[] } = {};
+
+    constructor(validEventList: Array<keyof M>) {
+        this.register(...validEventList);
+    }
+
+    /**
+     * Adds events to the list of supported ones.
+     * Plugins can use this to make their own events available on the workflow.
+     */
+    register(...events: Array<keyof M>): void {
+        for (const event of events) {
+            if (!this.handlers[event]) {
+                this.handlers[event] = [];
+            }
+        }
     }
 
-    on(event: keyof this["handlers"], handler) {
+    on<E extends keyof M>(event: E, handler: EventHandler<M[E]>): () => void {
         this.guard(event, "subscribe to");
         this.handlers[event].push(handler);
 
         return () => this.off(event, handler);
     }
 
-    off(event: keyof this["handlers"], handler) {
+    off<E extends keyof M>(event: E, handler: EventHandler<M[E]>): void {
         this.guard(event, "unsubscribe from");
-        return this.handlers[event].splice(this.handlers[event].findIndex(h => handler === h), 1);
+
+        const index = this.handlers[event].findIndex(h => handler === h);
+        if (index !== -1) {
+            this.handlers[event].splice(index, 1);
+        }
     }
 
-    emit(event, ...data: any[]) {
+    emit<E extends keyof M>(event: E, payload?: M[E]): void {
         this.guard(event, "emit");
         for (let i = 0; i < this.handlers[event].length; i++) {
-            this.handlers[event][i](...data);
+            this.handlers[event][i](payload);
         }
     }
 
@@ -30,10 +53,10 @@ export class EventHub {
         }
     }
 
-    private guard(event, verb) {
+    private guard(event: keyof M, verb: string) {
         if (!this.handlers[event]) {
-            console.warn(`Trying to ${verb} a non-supported event “${event}”. 
+            console.warn(`Trying to ${verb} a non-supported event “${event}”.
             Supported events are: ${Object.keys(this.handlers).join(", ")}”`);
         }
     }
-}
\ No newline at end of file
+}
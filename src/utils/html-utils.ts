@@ -4,7 +4,7 @@ export class HtmlUtils {
         "&": "&amp;",
         "<": "&lt;",
         ">": "&gt;",
-        "\"\"": "&quot;",
+        "\"": "&quot;",
         "'": "&#39;",
         "/": "&#x2F;"
     };
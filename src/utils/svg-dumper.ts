@@ -7,7 +7,7 @@ export class SvgDumper {
         "path": ["fill", "stroke", "stroke-width"],
         "circle": ["fill", "stroke", "stroke-width"],
         "line": ["stroke", "stroke-width"],
-        "text": ["fill", "font-size", "text-anchor", "font-family"],
+        "text": ["fill", "font-size", "text-anchor", "alignment-baseline", "font-family"],
         "polygon": ["stroke", "fill"]
     };
 
@@ -34,6 +34,11 @@ export class SvgDumper {
             clone.removeChild(panHandle);
         }
 
+        // Plugins mark elements that are only there for editing, like resize handles, so they don't end up in the picture
+        for (const el of Array.from(clone.querySelectorAll("[data-no-export]"))) {
+            el.parentNode.removeChild(el);
+        }
+
         return new XMLSerializer().serializeToString(clone);
 
     }